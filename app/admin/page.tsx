@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+import { can, ROLES, Role } from '@/lib/policy';
+
+type Me = { id: string; email: string; role: Role };
+
+type AdminPost = { _id: string; title: string; authorEmail?: string; createdAt?: string; hidden?: boolean };
+
+type AdminUser = { _id: string; email: string; role?: Role; disabled?: boolean; createdAt?: string };
+
+export default function AdminPage() {
+  const [me, setMe] = useState<Me | null>(null);
+  const [posts, setPosts] = useState<AdminPost[]>([]);
+  const [postsCursor, setPostsCursor] = useState<string | null>(null);
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [usersCursor, setUsersCursor] = useState<string | null>(null);
+
+  const loadPosts = useCallback(async (cursor?: string | null) => {
+    const params = new URLSearchParams({ limit: '20' });
+    if (hiddenOnly) params.set('hidden', 'true');
+    if (cursor) params.set('cursor', cursor);
+    const res = await apiFetch(`/api/admin/posts?${params}`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setPosts(prev => (cursor ? [...prev, ...data.items] : data.items));
+      setPostsCursor(data.nextCursor || null);
+    }
+  }, [hiddenOnly]);
+
+  const loadUsers = useCallback(async (cursor?: string | null) => {
+    const params = new URLSearchParams({ limit: '20' });
+    if (cursor) params.set('cursor', cursor);
+    const res = await apiFetch(`/api/admin/users?${params}`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setUsers(prev => (cursor ? [...prev, ...data.items] : data.items));
+      setUsersCursor(data.nextCursor || null);
+    }
+  }, []);
+
+  useEffect(() => {
+    apiFetch('/api/auth/me', { cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data?.user) {
+          location.href = `/login?next=${encodeURIComponent(location.pathname)}`;
+          return;
+        }
+        setMe(data.user);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (can(me, 'admin:access')) loadPosts();
+  }, [me, loadPosts]);
+
+  useEffect(() => {
+    if (can(me, 'user:list')) loadUsers();
+  }, [me, loadUsers]);
+
+  async function setHidden(post: AdminPost, hidden: boolean) {
+    const res = await apiFetch(`/api/admin/posts/${post._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hidden }),
+    });
+    if (res.ok) {
+      setPosts(prev => prev.map(p => (p._id === post._id ? { ...p, hidden } : p)));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '처리 실패');
+    }
+  }
+
+  async function deletePost(post: AdminPost) {
+    if (!confirm(`'${post.title}' 게시글을 삭제하시겠습니까?`)) return;
+    const res = await apiFetch(`/api/posts/${post._id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setPosts(prev => prev.filter(p => p._id !== post._id));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '삭제 실패');
+    }
+  }
+
+  async function updateUser(user: AdminUser, patch: { role?: Role; disabled?: boolean }) {
+    const res = await apiFetch(`/api/admin/users/${user._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    });
+    if (res.ok) {
+      setUsers(prev => prev.map(u => (u._id === user._id ? { ...u, ...patch } : u)));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '변경 실패');
+    }
+  }
+
+  if (!me) {
+    return <main className="min-h-screen p-8 max-w-3xl mx-auto">불러오는 중...</main>;
+  }
+
+  if (!can(me, 'admin:access')) {
+    return (
+      <main className="min-h-screen p-8 max-w-3xl mx-auto space-y-4">
+        <p>접근 권한이 없습니다.</p>
+        <Link href="/posts" className="underline text-sm">게시판으로</Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-3xl mx-auto space-y-10">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">관리</h1>
+        <Link href="/posts" className="underline text-sm">게시판</Link>
+      </div>
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">게시글 관리</h2>
+          <label className="flex items-center gap-1 text-sm">
+            <input type="checkbox" checked={hiddenOnly} onChange={(e) => setHiddenOnly(e.target.checked)} />
+            숨긴 글만
+          </label>
+        </div>
+        <ul className="space-y-2">
+          {posts.map((p) => (
+            <li key={p._id} className="border rounded-md p-3 flex items-start justify-between gap-3">
+              <div>
+                <Link href={`/posts/${p._id}`} className="font-medium hover:underline">{p.title}</Link>
+                {p.hidden && <span className="ml-2 text-xs text-orange-600">숨김</span>}
+                <div className="text-xs text-gray-500">
+                  {p.authorEmail || '익명'} • {p.createdAt ? new Date(p.createdAt).toLocaleString() : ''}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => setHidden(p, !p.hidden)}
+                  className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
+                >
+                  {p.hidden ? '숨김 해제' : '숨기기'}
+                </button>
+                <button
+                  onClick={() => deletePost(p)}
+                  className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+                >
+                  삭제
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {postsCursor && (
+          <button onClick={() => loadPosts(postsCursor)} className="w-full rounded-md border py-2 text-sm hover:bg-gray-100">
+            더 보기
+          </button>
+        )}
+      </section>
+
+      {can(me, 'user:list') && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">사용자 관리</h2>
+          <ul className="space-y-2">
+            {users.map((u) => (
+              <li key={u._id} className="border rounded-md p-3 flex items-center justify-between gap-3">
+                <div>
+                  <div className="font-medium">
+                    {u.email}
+                    {u.disabled && <span className="ml-2 text-xs text-red-600">비활성</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    가입 {u.createdAt ? new Date(u.createdAt).toLocaleString() : ''}
+                  </div>
+                </div>
+                {u._id !== me.id && (
+                  <div className="flex gap-2 shrink-0">
+                    <select
+                      value={u.role || 'user'}
+                      onChange={(e) => updateUser(u, { role: e.target.value as Role })}
+                      className="rounded-md border px-2 py-1 text-sm"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => updateUser(u, { disabled: !u.disabled })}
+                      className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
+                    >
+                      {u.disabled ? '활성화' : '비활성화'}
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {usersCursor && (
+            <button onClick={() => loadUsers(usersCursor)} className="w-full rounded-md border py-2 text-sm hover:bg-gray-100">
+              더 보기
+            </button>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+const hideBody = z.object({ hidden: z.boolean({ required_error: 'hidden 값이 필요합니다.' }) });
+
+// ---------------- PATCH: 게시글 숨김/숨김 해제 (모더레이터) ----------------
+// body: { hidden: boolean }
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('admin.posts.hide', async (logger) => {
+    const user = await requireUser(req);
+    authorize(user, 'post:hide');
+
+    const { id } = await parseParams(params, paramsSchema);
+    const { hidden } = await parseBody(req, hideBody);
+
+    const updated = await getRepositories().posts.setHidden(id, hidden, user.id);
+    if (!updated) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    logger.info(hidden ? '게시글 숨김' : '게시글 숨김 해제', { postId: String(id), moderatorId: user.id });
+    return NextResponse.json({ ok: true });
+  });
+}
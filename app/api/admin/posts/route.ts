@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { pageQuery } from '@/lib/pagination';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { parseQuery, z } from '@/lib/validation';
+
+const listQuery = pageQuery.extend({ hidden: z.enum(['true', 'false']).optional() });
+
+// ---------------- GET: 관리용 게시글 목록 (숨김 포함) ----------------
+// 쿼리 파라미터: limit, cursor, order, hidden(true이면 숨김 글만)
+export async function GET(req: NextRequest) {
+  return apiRoute('admin.posts.list', async () => {
+    const user = await requireUser(req);
+    authorize(user, 'admin:access');
+
+    const { hidden, ...page } = parseQuery(req, listQuery);
+    const result = await getRepositories().posts.list({ hidden: hidden === 'true' ? 'only' : 'any' }, page);
+
+    return NextResponse.json(result);
+  });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/sessions';
+import { ROLES } from '@/lib/policy';
+import { getRepositories, UserPatch } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+const updateBody = z
+  .object({
+    role: z.enum(ROLES, { message: '알 수 없는 역할입니다.' }).optional(),
+    disabled: z.boolean({ message: 'disabled 값이 올바르지 않습니다.' }).optional(),
+  })
+  .refine((body) => body.role !== undefined || body.disabled !== undefined, { message: '변경할 항목이 없습니다.' });
+
+// ---------------- PATCH: 역할 변경 / 계정 비활성화 (관리자) ----------------
+// body: { role?: 'user' | 'moderator' | 'admin', disabled?: boolean }
+// 역할 변경은 다음 토큰 갱신(최대 15분) 때 반영, 비활성화는 모든 세션을 즉시 폐기
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('admin.users.update', async (logger) => {
+    const user = await requireUser(req);
+    const { id } = await parseParams(params, paramsSchema);
+    const { role, disabled } = await parseBody(req, updateBody);
+
+    if (role !== undefined) authorize(user, 'user:changeRole');
+    if (disabled !== undefined) authorize(user, 'user:disable');
+
+    // 관리자가 실수로 자신을 잠그지 않도록 본인 계정 변경은 막음
+    const targetId = String(id);
+    if (targetId === user.id) {
+      throw ApiError.validation('본인 계정의 역할/상태는 변경할 수 없습니다.');
+    }
+
+    const patch: UserPatch = {};
+    if (role !== undefined) patch.role = role;
+    if (disabled !== undefined) patch.disabled = disabled;
+
+    const updated = await getRepositories().users.update(targetId, patch);
+    if (!updated) {
+      throw ApiError.notFound('사용자를 찾을 수 없습니다.');
+    }
+
+    const revokedSessions = disabled ? await revokeAllSessions(targetId) : 0;
+    logger.info('사용자 정보 변경', { adminId: user.id, targetId, role, disabled, revokedSessions });
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { pageQuery } from '@/lib/pagination';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { parseQuery } from '@/lib/validation';
+
+// ---------------- GET: 사용자 목록 (관리자) ----------------
+export async function GET(req: NextRequest) {
+  return apiRoute('admin.users.list', async () => {
+    const user = await requireUser(req);
+    authorize(user, 'user:list');
+
+    const page = parseQuery(req, pageQuery);
+
+    const result = await getRepositories().users.list(page);
+
+    return NextResponse.json(result);
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getClientMeta } from '@/lib/auth';
+import { issueToken } from '@/lib/one-time-tokens';
+import { getMailTransport, appUrl } from '@/lib/mail';
+import { mailRateLimiter } from '@/lib/rate-limit';
+import { apiRoute } from '@/lib/api';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { getRepositories } from '@/lib/repositories';
+import { parseBody, nonEmptyString, z } from '@/lib/validation';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const forgotBody = z.object({ email: nonEmptyString('이메일이 필요합니다.') });
+
+// 입력한 이메일 기준으로 세므로 계정이 없어도 같은 방식으로 제한됨
+function tooManyRequests(retryAfterSeconds: number) {
+  return new ApiError(
+    429,
+    ErrorCode.RATE_LIMITED,
+    '메일 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+    undefined,
+    { 'Retry-After': String(retryAfterSeconds) }
+  );
+}
+
+// 비밀번호 재설정 메일 요청
+// 계정 존재 여부가 드러나지 않도록 항상 같은 응답을 반환
+export async function POST(req: NextRequest) {
+  return apiRoute('auth.forgotPassword', async (logger) => {
+    const { email } = await parseBody(req, forgotBody);
+    const { ip } = getClientMeta(req);
+
+    const limit = await mailRateLimiter.hit(ip, email);
+    if (limit.locked) {
+      logger.warn('비밀번호 재설정 요청 거부: 요청 제한', { ip, key: limit.key, retryAfterSeconds: limit.retryAfterSeconds });
+      throw tooManyRequests(limit.retryAfterSeconds);
+    }
+
+    const user = await getRepositories().users.findByEmail(email);
+
+    if (user) {
+      // 토큰 발급/메일 발송은 응답을 보낸 뒤 처리해 계정 유무가 응답 시간으로 드러나지 않게 함
+      after(async () => {
+        try {
+          const token = await issueToken(String(user._id), 'password_reset', RESET_TOKEN_TTL_MS);
+          const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+          await getMailTransport().send({
+            to: user.email,
+            subject: '비밀번호 재설정 안내',
+            text: `아래 링크에서 비밀번호를 재설정하세요. 링크는 1시간 동안 한 번만 사용할 수 있습니다.\n\n${link}`,
+          });
+          logger.info('비밀번호 재설정 메일 발송', { userId: String(user._id) });
+        } catch (error) {
+          logger.error('비밀번호 재설정 메일 발송 실패', error as Error, { userId: String(user._id) });
+        }
+      });
+    } else {
+      logger.info('비밀번호 재설정 요청: 존재하지 않는 계정');
+    }
+
+    return NextResponse.json({ ok: true, message: '입력한 이메일로 재설정 안내를 보냈습니다.' });
+  });
+}
@@ -1,53 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
-import clientPromise from '@/lib/database';
 import bcrypt from 'bcryptjs';
-import { signToken } from '@/lib/auth';
-import { createManualLogger, withLogging, createSpan } from '@/lib/logger-tracing';
+import { signToken, setAuthCookie, setRefreshCookie, getClientMeta, credentialsInput, TokenPayload } from '@/lib/auth';
+import { createSession } from '@/lib/sessions';
+import { createManualLogger, createSpan } from '@/lib/logger-tracing';
+import { loginRateLimiter } from '@/lib/rate-limit';
+import { isRole } from '@/lib/policy';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { parseBody } from '@/lib/validation';
+import { recordLogin } from '@/lib/metrics';
+
+// 계정 존재 여부가 드러나지 않도록 실패 메시지를 하나로 통일
+const INVALID_CREDENTIALS = '이메일 또는 비밀번호가 올바르지 않습니다.';
+
+// 존재하지 않는 계정도 bcrypt 비교 시간을 들여 응답 시간으로 계정 유무를 추측할 수 없게 함
+const DUMMY_HASH = bcrypt.hashSync('dummy-password-for-timing', 10);
+
+function tooManyAttempts(retryAfterSeconds: number) {
+  return new ApiError(
+    429,
+    ErrorCode.RATE_LIMITED,
+    '로그인 시도가 너무 많습니다. 잠시 후 다시 시도해주세요.',
+    undefined,
+    { 'Retry-After': String(retryAfterSeconds) }
+  );
+}
 
 export async function POST(req: NextRequest) {
-  return withLogging('auth.login', async (logger) => {
-    const { email, password } = await req.json().catch(() => ({}));
+  return apiRoute('auth.login', async (logger) => {
+    const { email, password } = await parseBody(req, credentialsInput);
+    const meta = getClientMeta(req);
+    const { ip } = meta;
     logger.info('로그인 시도', { email });
 
-    if (!email || !password) {
-      logger.warn('로그인 실패: 필수 필드 누락', { email, password });
-      return NextResponse.json({ message: '이메일/비밀번호 필요', status: 400 });
+    // 잠금 상태면 비밀번호 검증 없이 거부
+    const limit = await loginRateLimiter.check(ip, email);
+    if (limit.locked) {
+      logger.warn('로그인 거부: 잠금 상태', { email, ip, retryAfterSeconds: limit.retryAfterSeconds });
+      recordLogin('locked');
+      throw tooManyAttempts(limit.retryAfterSeconds);
     }
 
     // DB 조회
     const user = await createSpan('auth.login.fetchUser', async (span, traceId) => {
       const spanLogger = createManualLogger(traceId);
       spanLogger.debug('사용자 조회 중', { email });
-      const client = await clientPromise;
-      const db = client.db(process.env.MONGODB_DB || 'app');
-      const users = db.collection('users');
-      return await users.findOne({ email });
+      return await getRepositories().users.findByEmail(email);
     });
 
-    if (!user) return NextResponse.json({ message: '존재하지 않는 계정', status: 401 });
-
     // 비밀번호 검증
     const valid = await createSpan('auth.login.verifyPassword', async (span, traceId) => {
       const spanLogger = createManualLogger(traceId);
-      spanLogger.debug('비밀번호 검증 중', { userId: String(user._id) });
-      return await bcrypt.compare(password, user.password);
+      spanLogger.debug('비밀번호 검증 중', { userId: user ? String(user._id) : undefined });
+      const matched = await bcrypt.compare(password, user?.password ?? DUMMY_HASH);
+      return !!user && matched;
     });
 
-    if (!valid) return NextResponse.json({ message: '비밀번호 불일치', status: 401 });
+    if (!user || !valid) {
+      logger.warn('로그인 실패: 잘못된 자격 증명', { email, ip, userExists: !!user });
+      recordLogin('invalid_credentials');
+      const failure = await loginRateLimiter.recordFailure(ip, email);
+      if (failure.locked) throw tooManyAttempts(failure.retryAfterSeconds);
+      throw new ApiError(401, ErrorCode.INVALID_CREDENTIALS, INVALID_CREDENTIALS);
+    }
 
-    // 토큰 발급
-    const token = signToken({ id: String(user._id), email: user.email });
-    logger.info('로그인 성공', { userId: String(user._id) });
+    await loginRateLimiter.recordSuccess(email);
+
+    // 비밀번호가 맞은 경우에만 비활성화 여부를 알려줌
+    if (user.disabled) {
+      logger.warn('로그인 거부: 비활성화된 계정', { userId: String(user._id) });
+      recordLogin('disabled');
+      throw new ApiError(403, ErrorCode.ACCOUNT_DISABLED, '비활성화된 계정입니다. 관리자에게 문의하세요.');
+    }
+
+    // 세션 생성 및 토큰 발급
+    const payload: TokenPayload = { id: String(user._id), email: user.email, role: isRole(user.role) ? user.role : 'user' };
+    const { jti, refreshToken } = await createSession(payload, meta);
+    const token = signToken(payload, jti);
+    logger.info('로그인 성공', { userId: payload.id });
+    recordLogin('success');
 
     const res = NextResponse.json({ ok: true });
-    res.cookies.set('token', token, {
-      httpOnly: true,
-      sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production',
-      path: '/',
-      maxAge: 60 * 60 * 24 * 7,
-    });
+    setAuthCookie(res, token);
+    setRefreshCookie(res, refreshToken);
     return res;
   });
 }
-
@@ -1,7 +1,17 @@
-import { NextResponse } from 'next/server';
-import { clearAuthCookie } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { clearAuthCookie, getUserFromRequest } from '@/lib/auth';
+import { revokeSession, revokeByRefreshToken } from '@/lib/sessions';
+
+export async function POST(req: NextRequest) {
+  // 쿠키만 지우지 않고 서버 세션도 폐기해 탈취된 토큰을 무효화
+  const user = await getUserFromRequest(req);
+  const refreshToken = req.cookies.get('refresh_token')?.value;
+  if (user) {
+    await revokeSession(user.id, user.jti);
+  } else if (refreshToken) {
+    await revokeByRefreshToken(refreshToken);
+  }
 
-export async function POST() {
   const res = NextResponse.json({ ok: true });
   clearAuthCookie(res);
   return res;
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
+import { isEmailVerified } from '@/lib/email-verification';
 
 export async function GET(req: NextRequest) {
-  const user = getUserFromRequest(req);
+  const user = await getUserFromRequest(req);
   if (!user) {
     return NextResponse.json({ authenticated: false }, { status: 401 });
   }
-  return NextResponse.json({ authenticated: true, user });
+  const emailVerified = await isEmailVerified(user.id);
+  return NextResponse.json({ authenticated: true, user: { id: user.id, email: user.email, role: user.role, emailVerified } });
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signToken, setAuthCookie, setRefreshCookie, clearAuthCookie } from '@/lib/auth';
+import { rotateRefreshToken, revokeAllSessions } from '@/lib/sessions';
+import { isRole } from '@/lib/policy';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError, errorResponse } from '@/lib/api-error';
+
+// 쿠키를 지워야 하므로 예외 대신 응답을 직접 만듦
+function unauthorized() {
+  const res = errorResponse(ApiError.unauthorized());
+  clearAuthCookie(res);
+  return res;
+}
+
+// refresh 토큰으로 access 토큰 재발급 (refresh 토큰도 함께 회전)
+export async function POST(req: NextRequest) {
+  return apiRoute('auth.refresh', async (logger) => {
+    const refreshToken = req.cookies.get('refresh_token')?.value;
+    if (!refreshToken) {
+      throw ApiError.unauthorized();
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+    if (result.status !== 'ok') {
+      if (result.status === 'reused') {
+        logger.warn('refresh 토큰 재사용 감지: 세션 폐기', { userId: result.session.userId, sessionId: result.session._id });
+      }
+      return unauthorized();
+    }
+
+    // 역할 변경/계정 비활성화를 반영하기 위해 갱신 때마다 사용자 정보를 다시 읽음
+    const { session } = result;
+    const user = await getRepositories().users.findById(session.userId);
+    if (!user || user.disabled) {
+      await revokeAllSessions(session.userId);
+      logger.warn('토큰 갱신 거부: 비활성화되었거나 삭제된 계정', { userId: session.userId });
+      return unauthorized();
+    }
+
+    const res = NextResponse.json({ ok: true });
+    const role = isRole(user.role) ? user.role : 'user';
+    setAuthCookie(res, signToken({ id: session.userId, email: session.email, role }, session._id));
+    if (result.refreshToken) setRefreshCookie(res, result.refreshToken);
+    return res;
+  });
+}
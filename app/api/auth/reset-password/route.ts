@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { consumeToken } from '@/lib/one-time-tokens';
+import { revokeAllSessions } from '@/lib/sessions';
+import { apiRoute } from '@/lib/api';
+import { getRepositories } from '@/lib/repositories';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { parseBody, nonEmptyString, z } from '@/lib/validation';
+
+const resetBody = z.object({
+  token: nonEmptyString('토큰/비밀번호가 필요합니다.'),
+  password: z.string({ required_error: '토큰/비밀번호가 필요합니다.' }).min(1, '토큰/비밀번호가 필요합니다.'),
+});
+
+// 재설정 토큰으로 새 비밀번호 설정
+export async function POST(req: NextRequest) {
+  return apiRoute('auth.resetPassword', async (logger) => {
+    const { token, password } = await parseBody(req, resetBody);
+
+    const userId = await consumeToken(token, 'password_reset');
+    if (!userId) {
+      logger.warn('비밀번호 재설정 실패: 유효하지 않은 토큰');
+      throw new ApiError(400, ErrorCode.INVALID_TOKEN, '링크가 만료되었거나 이미 사용되었습니다.');
+    }
+
+    const hash = await bcrypt.hash(password, 10);
+    await getRepositories().users.update(userId, { password: hash });
+
+    // 탈취된 세션이 남지 않도록 기존 로그인 모두 종료
+    const revokedCount = await revokeAllSessions(userId);
+    logger.info('비밀번호 재설정 완료', { userId, revokedSessions: revokedCount });
+
+    return NextResponse.json({ ok: true });
+  });
+}
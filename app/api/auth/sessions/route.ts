@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, clearAuthCookie } from '@/lib/auth';
+import { listActiveSessions, revokeSession, revokeAllSessions } from '@/lib/sessions';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, z } from '@/lib/validation';
+
+// 한 세션은 id, 모든 세션은 all: true를 명시해야 함 (빈 본문이나 오타로 전체 폐기되지 않도록)
+const revokeBody = z
+  .object({
+    id: z.string().min(1, '세션 id가 필요합니다.').optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((body) => !body.id !== !body.all, { message: 'id 또는 all: true 중 하나를 지정해야 합니다.' });
+
+// ---------------- GET: 활성 세션(로그인 기기) 목록 ----------------
+export async function GET(req: NextRequest) {
+  return apiRoute('auth.sessions.list', async () => {
+    const user = await requireUser(req);
+
+    const sessions = await listActiveSessions(user.id);
+    const items = sessions.map((session) => ({ ...session, current: session._id === user.jti }));
+    return NextResponse.json({ items });
+  });
+}
+
+// ---------------- DELETE: 세션 폐기 ----------------
+// body: { id } 이면 해당 세션만, { all: true } 이면 모든 세션 폐기
+export async function DELETE(req: NextRequest) {
+  return apiRoute('auth.sessions.revoke', async (logger) => {
+    const user = await requireUser(req);
+
+    const { id } = await parseBody(req, revokeBody);
+
+    if (id) {
+      const revoked = await revokeSession(user.id, id);
+      if (!revoked) {
+        throw ApiError.notFound('세션을 찾을 수 없습니다.');
+      }
+      logger.info('세션 폐기', { userId: user.id, sessionId: id, current: id === user.jti });
+
+      const res = NextResponse.json({ ok: true, revokedCount: 1 });
+      if (id === user.jti) clearAuthCookie(res);
+      return res;
+    }
+
+    const revokedCount = await revokeAllSessions(user.id);
+    logger.info('모든 세션 폐기', { userId: user.id, revokedCount });
+
+    const res = NextResponse.json({ ok: true, revokedCount });
+    clearAuthCookie(res);
+    return res;
+  });
+}
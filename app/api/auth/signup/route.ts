@@ -1,32 +1,33 @@
 import { NextResponse } from 'next/server';
-import clientPromise from '@/lib/database';
 import bcrypt from 'bcryptjs';
+import { createManualLogger } from '@/lib/logger-tracing';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { credentialsInput } from '@/lib/auth';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody } from '@/lib/validation';
 
 export async function POST(req: Request) {
-	try {
-		const { email, password } = await req.json();
-		if (!email || !password) {
-			return NextResponse.json({ message: '이메일/비밀번호가 필요합니다.' }, { status: 400 });
-		}
-
-		const client = await clientPromise;
-		const dbName = process.env.MONGODB_DB || 'app';
-		const db = client.db(dbName);
-		const users = db.collection('users');
-
-		await users.createIndex({ email: 1 }, { unique: true });
+	return apiRoute('auth.signup', async (logger) => {
+		const { email, password } = await parseBody(req, credentialsInput);
 
-		const existing = await users.findOne({ email });
-		if (existing) {
-			return NextResponse.json({ message: '이미 존재하는 이메일입니다.' }, { status: 409 });
+		const hash = await bcrypt.hash(password, 10);
+		// 중복 검사는 저장소가 원자적으로 처리 (MongoUserRepository가 users.email unique 인덱스를 만듦)
+		const user = await getRepositories().users.create({ email, password: hash });
+		if (!user) {
+			throw ApiError.conflict('이미 존재하는 이메일입니다.');
 		}
+		const userId = String(user._id);
 
-		const hash = await bcrypt.hash(password, 10);
-		const now = new Date();
-		await users.insertOne({ email, password: hash, createdAt: now, updatedAt: now });
+		// 인증 메일 발송 실패는 가입 자체를 막지 않음 (재발송 가능)
+		try {
+			await sendVerificationEmail({ id: userId, email });
+		} catch (mailError) {
+			createManualLogger().error('인증 메일 발송 실패', mailError as Error, { userId });
+		}
 
+		logger.info('회원가입 완료', { userId });
 		return NextResponse.json({ ok: true });
-	} catch (e: any) {
-		return NextResponse.json({ message: '서버 오류', error: e?.message }, { status: 500 });
-	}
+	});
 }
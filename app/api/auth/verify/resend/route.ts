@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientMeta, requireUser } from '@/lib/auth';
+import { isEmailVerified, sendVerificationEmail } from '@/lib/email-verification';
+import { mailRateLimiter } from '@/lib/rate-limit';
+import { apiRoute } from '@/lib/api';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+
+// 로그인한 사용자에게 인증 메일 재발송
+export async function POST(req: NextRequest) {
+  return apiRoute('auth.verifyEmail.resend', async (logger) => {
+    const user = await requireUser(req);
+
+    if (await isEmailVerified(user.id)) {
+      throw ApiError.conflict('이미 인증된 이메일입니다.');
+    }
+
+    const limit = await mailRateLimiter.hit(getClientMeta(req).ip, user.email);
+    if (limit.locked) {
+      logger.warn('인증 메일 재발송 거부: 요청 제한', { userId: user.id, key: limit.key, retryAfterSeconds: limit.retryAfterSeconds });
+      throw new ApiError(
+        429,
+        ErrorCode.RATE_LIMITED,
+        '메일 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+        undefined,
+        { 'Retry-After': String(limit.retryAfterSeconds) }
+      );
+    }
+
+    await sendVerificationEmail(user);
+    logger.info('인증 메일 재발송', { userId: user.id });
+    return NextResponse.json({ ok: true, message: '인증 메일을 다시 보냈습니다.' });
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withLogging } from '@/lib/logger-tracing';
+import { consumeToken } from '@/lib/one-time-tokens';
+import { getRepositories } from '@/lib/repositories';
+
+// 메일의 인증 링크가 가리키는 엔드포인트
+// 처리 결과는 /verify-email 페이지로 리다이렉트해서 보여줌
+export async function GET(req: NextRequest) {
+  return withLogging('auth.verifyEmail', async (logger) => {
+    const token = req.nextUrl.searchParams.get('token');
+    const userId = token ? await consumeToken(token, 'email_verification') : null;
+
+    if (!userId) {
+      logger.warn('이메일 인증 실패: 유효하지 않은 토큰');
+      return NextResponse.redirect(new URL('/verify-email?status=invalid', req.nextUrl.origin));
+    }
+
+    await getRepositories().users.update(userId, { emailVerified: true, emailVerifiedAt: new Date() });
+
+    logger.info('이메일 인증 완료', { userId });
+    return NextResponse.redirect(new URL('/verify-email?status=success', req.nextUrl.origin));
+  });
+}
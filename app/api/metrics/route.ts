@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { renderPrometheusMetrics } from '@/lib/metrics';
+
+// 수집할 때마다 새로 계산
+export const dynamic = 'force-dynamic';
+
+// ---------------- GET: Prometheus 수집 엔드포인트 ----------------
+// 수집 요청마다 로그가 쌓이지 않도록 apiRoute(withLogging)로 감싸지 않음
+// METRICS_TOKEN을 설정하면 Authorization: Bearer <토큰> 필요
+export async function GET(req: NextRequest) {
+  try {
+    const token = process.env.METRICS_TOKEN;
+    if (token && req.headers.get('authorization') !== `Bearer ${token}`) {
+      throw ApiError.unauthorized('메트릭 조회 토큰이 올바르지 않습니다.');
+    }
+
+    const body = await renderPrometheusMetrics();
+    if (body === null) throw ApiError.notFound('Prometheus 메트릭 수집이 꺼져 있습니다.');
+
+    return new NextResponse(body, { headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
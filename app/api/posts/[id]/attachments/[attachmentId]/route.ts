@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { getRepositories } from '@/lib/repositories';
+import { getStorageDriver } from '@/lib/storage';
+import { contentDisposition, deleteAttachment } from '@/lib/attachments';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseParams, parseQuery, objectId, z } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string; attachmentId: string }> };
+
+const paramsSchema = z.object({ id: objectId, attachmentId: objectId });
+
+const downloadQuery = z.object({ thumbnail: z.enum(['1']).optional() });
+
+// ---------------- GET: 다운로드 (로그인 필요) ----------------
+// ?thumbnail=1 이면 이미지 썸네일
+export async function GET(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.attachments.download', async () => {
+    const { id, attachmentId } = await parseParams(params, paramsSchema);
+    const { thumbnail } = parseQuery(req, downloadQuery);
+    const user = await requireUser(req);
+    const { posts, attachments } = getRepositories();
+
+    const post = await posts.findById(id);
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    const attachment = await attachments.find(id, attachmentId);
+    const key = thumbnail ? attachment?.thumbnailKey : attachment?.storageKey;
+    const data = attachment && key ? await getStorageDriver().get(key) : null;
+    if (!attachment || !data) {
+      throw ApiError.notFound('첨부 파일을 찾을 수 없습니다.');
+    }
+
+    const contentType = thumbnail ? 'image/webp' : attachment.contentType;
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.length),
+        // 이미지만 브라우저에서 바로 표시, 나머지는 내려받기
+        'Content-Disposition': contentDisposition(attachment, contentType.startsWith('image/')),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  });
+}
+
+// ---------------- DELETE: 첨부 파일 삭제 ----------------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.attachments.delete', async (logger) => {
+    const { id, attachmentId } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
+    const { posts, attachments } = getRepositories();
+
+    const post = await posts.findById(id);
+    if (!post) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'post:update', { authorId: post.authorId });
+
+    const attachment = await attachments.find(id, attachmentId);
+    if (!attachment) {
+      throw ApiError.notFound('첨부 파일을 찾을 수 없습니다.');
+    }
+
+    await deleteAttachment(attachment);
+
+    logger.info('첨부 파일 삭제', { postId: String(id), attachmentId: String(attachmentId), userId: user.id });
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest, requireUser, authorize } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { getRepositories } from '@/lib/repositories';
+import { ATTACHMENT_MAX_BYTES, ATTACHMENT_MAX_FILES, deleteAttachment, saveAttachment, toPublicAttachment } from '@/lib/attachments';
+import { apiRoute } from '@/lib/api';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+// multipart 경계/헤더 여유분
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// ---------------- GET: 첨부 파일 목록 ----------------
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('posts.attachments.list', async () => {
+    const { id } = await parseParams(params, paramsSchema);
+    const { posts, attachments } = getRepositories();
+
+    const post = await posts.findById(id);
+    const user = post?.hidden ? await getUserFromRequest(req) : null;
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    const items = await attachments.listByPost(id);
+    return NextResponse.json({ items: items.map(toPublicAttachment) });
+  });
+}
+
+// ---------------- POST: 첨부 파일 업로드 ----------------
+// multipart/form-data, 'file' 필드 (여러 개 가능)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('posts.attachments.upload', async (logger) => {
+    const { id } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
+
+    const { posts } = getRepositories();
+    // 휴지통의 게시글에는 올릴 수 없음
+    const post = await posts.findById(id);
+    if (!post || post.deletedAt) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'post:update', { authorId: post.authorId });
+
+    // 본문을 읽기 전에 선언된 크기로 먼저 거름
+    // 길이 없는 chunked 본문은 formData()가 크기 제한 없이 메모리에 읽으므로 거부 (선언보다 긴 본문은 서버가 끊음)
+    const declaredLength = req.headers.get('content-length');
+    if (declaredLength === null) {
+      throw new ApiError(411, ErrorCode.LENGTH_REQUIRED, 'Content-Length 헤더가 필요합니다.');
+    }
+    const contentLength = Number(declaredLength);
+    if (!Number.isSafeInteger(contentLength) || contentLength < 0) {
+      throw ApiError.validation('Content-Length 헤더가 올바르지 않습니다.');
+    }
+    if (contentLength > ATTACHMENT_MAX_BYTES * ATTACHMENT_MAX_FILES + MULTIPART_OVERHEAD_BYTES) {
+      throw new ApiError(413, ErrorCode.PAYLOAD_TOO_LARGE, '요청 본문이 너무 큽니다.', { maxBytes: ATTACHMENT_MAX_BYTES });
+    }
+
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      throw ApiError.validation('multipart/form-data 형식이어야 합니다.');
+    }
+
+    const files = form.getAll('file').filter((value): value is File => value instanceof File);
+    if (!files.length) {
+      throw ApiError.validation('파일이 필요합니다.');
+    }
+    if (files.length > ATTACHMENT_MAX_FILES) {
+      throw ApiError.validation(`한 번에 최대 ${ATTACHMENT_MAX_FILES}개까지 올릴 수 있습니다.`);
+    }
+
+    // 하나라도 실패하면 그 앞까지 올린 파일은 남고 에러 응답
+    const saved = [];
+    for (const file of files) {
+      saved.push(await saveAttachment(id, file, user.id));
+    }
+
+    // 올리는 동안 휴지통으로 옮겨졌으면 올린 파일을 지우고 거부
+    if (!(await posts.findById(id))) {
+      await Promise.all(saved.map(deleteAttachment));
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    logger.info('첨부 파일 업로드', {
+      postId: String(id),
+      userId: user.id,
+      count: saved.length,
+      bytes: saved.reduce((sum, attachment) => sum + attachment.size, 0),
+    });
+    return NextResponse.json({ ok: true, items: saved.map(toPublicAttachment) }, { status: 201 });
+  });
+}
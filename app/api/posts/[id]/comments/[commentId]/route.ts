@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { requireUser, authorize, AuthUser } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { commentInput } from '@/lib/comments';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string; commentId: string }> };
+
+const paramsSchema = z.object({ id: objectId, commentId: objectId });
+
+// 휴지통/숨김 게시글의 댓글은 다룰 수 없음
+async function findVisiblePost(postId: ObjectId, user: AuthUser) {
+  const post = await getRepositories().posts.findById(postId);
+  if (!post || !canViewPost(post, user)) {
+    throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+  }
+  return post;
+}
+
+// ---------------- PUT: 댓글 수정 (작성자만) ----------------
+export async function PUT(req: NextRequest, { params }: Params) {
+  return apiRoute('comments.update', async (logger) => {
+    const user = await requireUser(req);
+    const { id: postId, commentId } = await parseParams(params, paramsSchema);
+    const { content } = await parseBody(req, commentInput);
+
+    await findVisiblePost(postId, user);
+    const { comments } = getRepositories();
+    const comment = await comments.find(postId, commentId);
+    if (!comment) {
+      throw ApiError.notFound('댓글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'comment:update', { authorId: comment.authorId });
+
+    await comments.updateContent(comment._id, content);
+
+    logger.info('댓글 수정 완료', { commentId: String(commentId), postId: String(postId) });
+    return NextResponse.json({ ok: true });
+  });
+}
+
+// ---------------- DELETE: 댓글 삭제 (댓글 작성자 또는 게시글 작성자) ----------------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  return apiRoute('comments.delete', async (logger) => {
+    const user = await requireUser(req);
+    const { id: postId, commentId } = await parseParams(params, paramsSchema);
+
+    const post = await findVisiblePost(postId, user);
+    const { comments } = getRepositories();
+    const comment = await comments.find(postId, commentId);
+    if (!comment) {
+      throw ApiError.notFound('댓글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'comment:delete', { authorId: comment.authorId, postAuthorId: post.authorId });
+
+    // 최상위 댓글을 지우면 답글도 함께 삭제
+    const deletedCount = await comments.deleteWithReplies(comment._id);
+
+    logger.info('댓글 삭제 완료', { commentId: String(commentId), postId: String(postId), deletedCount });
+    return NextResponse.json({ ok: true, deletedCount });
+  });
+}
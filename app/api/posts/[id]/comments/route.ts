@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest, requireUser, authorize } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { createSpan, createManualLogger } from '@/lib/logger-tracing';
+import { getRepositories } from '@/lib/repositories';
+import { toThreads, commentInput } from '@/lib/comments';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+const paramsSchema = z.object({ id: objectId });
+
+const createBody = commentInput.extend({ parentId: objectId.nullish() });
+
+// ---------------- GET: 댓글 목록 조회 ----------------
+export async function GET(req: NextRequest, { params }: Params) {
+  return apiRoute('comments.list', async (logger) => {
+    const { id: postId } = await parseParams(params, paramsSchema);
+    const { posts, comments } = getRepositories();
+
+    // 숨김/휴지통 게시글의 댓글은 볼 수 있는 사용자에게만 보여줌
+    const post = await posts.findById(postId);
+    const user = post?.hidden ? await getUserFromRequest(req) : null;
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    const list = await comments.listByPost(postId);
+    logger.info('댓글 목록 조회 완료', { postId: String(postId), count: list.length });
+
+    return NextResponse.json({ items: toThreads(list), count: list.length });
+  });
+}
+
+// ---------------- POST: 댓글/답글 작성 ----------------
+export async function POST(req: NextRequest, { params }: Params) {
+  return apiRoute('comments.create', async (logger) => {
+    const user = await requireUser(req);
+    authorize(user, 'comment:create');
+
+    const { id: postId } = await parseParams(params, paramsSchema);
+    const { content, parentId } = await parseBody(req, createBody);
+
+    const { posts, comments } = getRepositories();
+    const post = await posts.findById(postId);
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    // 답글은 같은 게시글의 최상위 댓글에만 달 수 있음
+    if (parentId) {
+      const parent = await comments.find(postId, parentId);
+      if (!parent) {
+        throw ApiError.validation('상위 댓글을 찾을 수 없습니다.');
+      }
+      if (parent.parentId) {
+        throw ApiError.validation('답글에는 답글을 달 수 없습니다.');
+      }
+    }
+
+    const comment = await createSpan('comments.create.db', async (span, traceId) => {
+      const spanLogger = createManualLogger(traceId);
+      const created = await comments.create({
+        postId,
+        parentId: parentId ?? null,
+        content,
+        authorId: user.id,
+        authorEmail: user.email,
+      });
+      spanLogger.info('댓글 DB 삽입 완료', { commentId: String(created._id), postId: String(postId) });
+      span.addEvent('comments.inserted', { insertedId: String(created._id) });
+      return created;
+    });
+
+    logger.info('댓글 작성 완료', { commentId: String(comment._id), postId: String(postId), isReply: !!parentId });
+    return NextResponse.json({ ok: true, comment });
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { requireUser } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { REACTIONS } from '@/lib/reactions';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+
+type Params = { params: Promise<{ id: string }> };
+
+const paramsSchema = z.object({ id: objectId });
+
+const reactionInput = z.object({
+  emoji: z.enum(REACTIONS, { message: `반응은 ${REACTIONS.join(' ')} 중 하나여야 합니다.` }),
+});
+
+// 반영 후의 반응 수와 내 반응 목록
+async function reactionState(id: ObjectId, userId: string) {
+  const { posts, reactions } = getRepositories();
+  const post = await posts.findById(id);
+  return {
+    reactions: post?.reactions ?? {},
+    reactionCount: post?.reactionCount ?? 0,
+    myReactions: await reactions.listByUser(id, userId),
+  };
+}
+
+async function findVisiblePost(req: NextRequest, params: Params['params']) {
+  const { id } = await parseParams(params, paramsSchema);
+  const user = await requireUser(req);
+  const post = await getRepositories().posts.findById(id);
+  if (!post || !canViewPost(post, user)) {
+    throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+  }
+  return { id, user };
+}
+
+// ---------------- POST: 반응 추가 (이미 남긴 반응이면 그대로) ----------------
+export async function POST(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.reactions.add', async (logger) => {
+    const { id, user } = await findVisiblePost(req, params);
+    const { emoji } = await parseBody(req, reactionInput);
+
+    const { posts, reactions } = getRepositories();
+    if (await reactions.add(id, user.id, emoji)) {
+      await posts.adjustReactionCount(id, emoji, 1);
+      logger.info('반응 추가', { postId: String(id), userId: user.id, emoji });
+    }
+
+    return NextResponse.json({ ok: true, ...(await reactionState(id, user.id)) });
+  });
+}
+
+// ---------------- DELETE: 반응 취소 (남긴 적 없으면 그대로) ----------------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.reactions.remove', async (logger) => {
+    const { id, user } = await findVisiblePost(req, params);
+    const { emoji } = await parseBody(req, reactionInput);
+
+    const { posts, reactions } = getRepositories();
+    if (await reactions.remove(id, user.id, emoji)) {
+      await posts.adjustReactionCount(id, emoji, -1);
+      logger.info('반응 취소', { postId: String(id), userId: user.id, emoji });
+    }
+
+    return NextResponse.json({ ok: true, ...(await reactionState(id, user.id)) });
+  });
+}
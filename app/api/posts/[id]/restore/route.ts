@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+// ---------------- POST: 휴지통에서 복원 ----------------
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('posts.restore', async (logger) => {
+    const { id } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
+
+    const { posts } = getRepositories();
+    const post = await posts.findById(id, { includeTrashed: true });
+    if (!post?.deletedAt) {
+      throw ApiError.notFound('휴지통에서 게시글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'post:restore', { authorId: post.authorId, deletedBy: post.deletedBy });
+
+    await posts.restore([id]);
+
+    logger.info('게시글 복원', { postId: String(id), userId: user.id });
+    return NextResponse.json({ ok: true });
+  });
+}
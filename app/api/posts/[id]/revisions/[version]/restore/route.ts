@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, authorize } from '@/lib/auth';
+import { getRepositories } from '@/lib/repositories';
+import { ifMatchSatisfied, postETag, preconditionFailed } from '@/lib/posts';
+import { ensureBaseRevision } from '@/lib/revisions';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({
+  id: objectId,
+  version: z.coerce.number({ invalid_type_error: '올바른 버전이 아닙니다.' }).int('올바른 버전이 아닙니다.').min(1, '올바른 버전이 아닙니다.'),
+});
+
+// ---------------- POST: 이전 버전으로 복원 (작성자만) ----------------
+// 이력을 지우지 않고 복원한 내용을 새 버전으로 추가
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; version: string }> }) {
+  return apiRoute('posts.revisions.restore', async (logger) => {
+    const { id, version } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
+    const { posts, revisions } = getRepositories();
+
+    const post = await posts.findById(id);
+    if (!post) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    authorize(user, 'post:update', { authorId: post.authorId });
+
+    // 게시글 수정과 같이 보고 있던 버전이 아니면 덮어쓰지 않음
+    if (!ifMatchSatisfied(req.headers.get('if-match'), postETag(post))) {
+      logger.warn('게시글 버전 복원 충돌', { postId: String(id) });
+      throw preconditionFailed(post);
+    }
+
+    const target = await revisions.find(id, version);
+    if (!target) {
+      throw ApiError.notFound('버전을 찾을 수 없습니다.');
+    }
+
+    await ensureBaseRevision(post);
+    // 조회 이후 휴지통으로 옮겨졌거나 다른 요청이 먼저 수정했으면 복원하지 않음
+    const updated = await posts.update(id, { title: target.title, content: target.content }, { ifUpdatedAt: post.updatedAt });
+    if (!updated) {
+      const current = await posts.findById(id);
+      if (!current) throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+      logger.warn('게시글 버전 복원 충돌', { postId: String(id) });
+      throw preconditionFailed(current);
+    }
+    const revision = await revisions.append({
+      postId: id,
+      title: target.title,
+      content: target.content,
+      editorId: user.id,
+      restoredFrom: version,
+    });
+
+    logger.info('게시글 버전 복원', { postId: String(id), restoredFrom: version, version: revision.version });
+    return NextResponse.json(
+      { ok: true, version: revision.version, post: { title: target.title, content: target.content } },
+      { headers: { ETag: postETag(updated) } }
+    );
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { getRepositories } from '@/lib/repositories';
+import { diffRevisions } from '@/lib/revisions';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseParams, parseQuery, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+const versionQuery = z.coerce
+  .number({ invalid_type_error: '버전은 1 이상의 정수여야 합니다.' })
+  .int('버전은 1 이상의 정수여야 합니다.')
+  .min(1, '버전은 1 이상의 정수여야 합니다.');
+
+const diffQuery = z.object({ from: versionQuery, to: versionQuery });
+
+// ---------------- GET: 두 버전 비교 ----------------
+// 쿼리 파라미터: from, to (버전 번호)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('posts.revisions.diff', async () => {
+    const { id } = await parseParams(params, paramsSchema);
+    const { from, to } = parseQuery(req, diffQuery);
+    const { posts, revisions } = getRepositories();
+
+    const post = await posts.findById(id);
+    const user = post?.hidden ? await getUserFromRequest(req) : null;
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    const [before, after] = await Promise.all([revisions.find(id, from), revisions.find(id, to)]);
+    if (!before || !after) {
+      throw ApiError.notFound('버전을 찾을 수 없습니다.');
+    }
+
+    return NextResponse.json({ from: before.version, to: after.version, ...diffRevisions(before, after) });
+  });
+}
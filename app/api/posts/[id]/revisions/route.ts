@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { canViewPost } from '@/lib/posts';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseParams, objectId, z } from '@/lib/validation';
+
+const paramsSchema = z.object({ id: objectId });
+
+// ---------------- GET: 수정 이력 (최신 버전부터) ----------------
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return apiRoute('posts.revisions.list', async () => {
+    const { id } = await parseParams(params, paramsSchema);
+    const { posts, revisions } = getRepositories();
+
+    const post = await posts.findById(id);
+    const user = post?.hidden ? await getUserFromRequest(req) : null;
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+    }
+
+    const items = await revisions.list(id);
+    return NextResponse.json({ items });
+  });
+}
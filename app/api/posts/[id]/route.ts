@@ -1,88 +1,126 @@
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import clientPromise from '@/lib/database';
-import { getUserFromRequest } from '@/lib/auth';
-import { ObjectId } from 'mongodb';
-
-// 게시글 상세 조회
-export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const client = await clientPromise;
-    const db = client.db(process.env.MONGODB_DB || 'app');
-    const posts = db.collection('posts');
-
-    const post = await posts.findOne({ _id: new ObjectId(params.id) });
-    if (!post) {
-      return NextResponse.json({ message: '게시글을 찾을 수 없습니다.' }, { status: 404 });
-    }
-
-    return NextResponse.json({ post });
-  } catch (e: any) {
-    return NextResponse.json({ message: '서버 오류', error: e?.message }, { status: 500 });
-  }
+import { getUserFromRequest, getClientMeta, requireUser, authorize } from '@/lib/auth';
+import { apiRoute } from '@/lib/api';
+import { ApiError } from '@/lib/api-error';
+import { parseBody, parseParams, objectId, z } from '@/lib/validation';
+import { postInput, canViewPost, postETag, ifMatchSatisfied, preconditionFailed } from '@/lib/posts';
+import { ensureBaseRevision } from '@/lib/revisions';
+import { renderPostContent } from '@/lib/markdown';
+import { getRepositories } from '@/lib/repositories';
+import { recordPostsDeleted } from '@/lib/metrics';
+
+type Params = { params: Promise<{ id: string }> };
+
+const paramsSchema = z.object({ id: objectId });
+
+// 조회수 중복 제거 기준: 로그인 사용자는 id, 비로그인은 IP 해시 (원본 IP는 저장하지 않음)
+function viewerKey(req: NextRequest, userId: string | undefined) {
+  if (userId) return `user:${userId}`;
+  const ip = getClientMeta(req).ip || 'unknown';
+  return `ip:${createHash('sha256').update(ip).digest('hex')}`;
 }
 
-// 게시글 수정
-export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const user = getUserFromRequest(req);
-    if (!user) {
-      return NextResponse.json({ message: '로그인이 필요합니다.' }, { status: 401 });
+// 게시글 상세 조회 (사람마다 한 번만 조회수 증가)
+export async function GET(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.get', async (logger) => {
+    const { id } = await parseParams(params, paramsSchema);
+    const { posts, views, reactions } = getRepositories();
+    const post = await posts.findById(id);
+    const user = await getUserFromRequest(req);
+    if (!post || !canViewPost(post, user)) {
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
     }
 
-    const { title, content } = await req.json();
-    if (!title || !content) {
-      return NextResponse.json({ message: '제목/내용이 필요합니다.' }, { status: 400 });
+    let viewCount = post.viewCount ?? 0;
+    try {
+      if (await views.record(id, viewerKey(req, user?.id))) {
+        await posts.incrementViewCount(id);
+        viewCount++;
+      }
+    } catch (error) {
+      // 조회수 기록 실패로 글을 못 보게 하지는 않음
+      logger.warn('조회수 기록 실패', { postId: String(id), error: (error as Error).message });
     }
 
-    const client = await clientPromise;
-    const db = client.db(process.env.MONGODB_DB || 'app');
-    const posts = db.collection('posts');
+    const contentHtml = await renderPostContent(post);
+    const myReactions = user ? await reactions.listByUser(id, user.id) : [];
+    return NextResponse.json(
+      { post: { ...post, contentHtml, viewCount }, myReactions },
+      { headers: { ETag: postETag(post) } }
+    );
+  });
+}
 
-    const post = await posts.findOne({ _id: new ObjectId(params.id) });
+// 게시글 수정
+export async function PUT(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.update', async (logger) => {
+    const { id } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
+    const { title, content, tags: inputTags } = await parseBody(req, postInput);
+
+    const { posts, revisions } = getRepositories();
+    const post = await posts.findById(id);
     if (!post) {
-      return NextResponse.json({ message: '게시글을 찾을 수 없습니다.' }, { status: 404 });
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
     }
 
-    if (post.authorId !== user.id) {
-      return NextResponse.json({ message: '권한이 없습니다.' }, { status: 403 });
-    }
+    authorize(user, 'post:update', { authorId: post.authorId });
 
-    await posts.updateOne(
-      { _id: new ObjectId(params.id) },
-      { $set: { title, content, updatedAt: new Date() } }
-    );
+    if (!ifMatchSatisfied(req.headers.get('if-match'), postETag(post))) {
+      logger.warn('게시글 수정 충돌', { postId: String(id) });
+      throw preconditionFailed(post);
+    }
 
-    return NextResponse.json({ ok: true });
-  } catch (e: any) {
-    return NextResponse.json({ message: '서버 오류', error: e?.message }, { status: 500 });
-  }
-}
+    // tags를 생략하면 기존 태그 유지
+    const tags = inputTags ?? post.tags ?? [];
+    const contentChanged = title !== post.title || content !== post.content;
+    const tagsChanged = tags.join() !== (post.tags ?? []).join();
+    if (!contentChanged && !tagsChanged) {
+      return NextResponse.json({ ok: true }, { headers: { ETag: postETag(post) } });
+    }
 
-// 게시글 삭제
-export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const user = getUserFromRequest(req);
-    if (!user) {
-      return NextResponse.json({ message: '로그인이 필요합니다.' }, { status: 401 });
+    // 제목/내용이 바뀐 경우에만 새 버전을 남김 (태그는 이력 대상 아님)
+    if (contentChanged) await ensureBaseRevision(post);
+    // 조회 이후 다른 요청이 먼저 수정했으면 덮어쓰지 않음
+    const updated = await posts.update(id, { title, content, tags }, { ifUpdatedAt: post.updatedAt });
+    if (!updated) {
+      const current = await posts.findById(id);
+      if (!current) throw ApiError.notFound('게시글을 찾을 수 없습니다.');
+      logger.warn('게시글 수정 충돌', { postId: String(id) });
+      throw preconditionFailed(current);
     }
+    const revision = contentChanged ? await revisions.append({ postId: id, title, content, editorId: user.id }) : null;
+
+    logger.info('게시글 수정 완료', { postId: String(id), version: revision?.version, tagsChanged });
+    return NextResponse.json({ ok: true, version: revision?.version, post: updated }, { headers: { ETag: postETag(updated) } });
+  });
+}
 
-    const client = await clientPromise;
-    const db = client.db(process.env.MONGODB_DB || 'app');
-    const posts = db.collection('posts');
+// 게시글 삭제 (휴지통으로 이동)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  return apiRoute('posts.delete', async (logger) => {
+    const { id } = await parseParams(params, paramsSchema);
+    const user = await requireUser(req);
 
-    const post = await posts.findOne({ _id: new ObjectId(params.id) });
+    const { posts } = getRepositories();
+    const post = await posts.findById(id);
     if (!post) {
-      return NextResponse.json({ message: '게시글을 찾을 수 없습니다.' }, { status: 404 });
+      throw ApiError.notFound('게시글을 찾을 수 없습니다.');
     }
 
-    if (post.authorId !== user.id) {
-      return NextResponse.json({ message: '권한이 없습니다.' }, { status: 403 });
+    authorize(user, 'post:delete', { authorId: post.authorId });
+
+    if (!ifMatchSatisfied(req.headers.get('if-match'), postETag(post))) {
+      logger.warn('게시글 삭제 충돌', { postId: String(id) });
+      throw preconditionFailed(post);
     }
 
-    await posts.deleteOne({ _id: new ObjectId(params.id) });
+    // 휴지통으로 이동 (보관 기간 동안 복원 가능)
+    const trashedCount = await posts.trash([id], user.id);
+    recordPostsDeleted('trash', trashedCount);
 
+    logger.info('게시글 휴지통 이동', { postId: String(id), userId: user.id });
     return NextResponse.json({ ok: true });
-  } catch (e: any) {
-    return NextResponse.json({ message: '서버 오류', error: e?.message }, { status: 500 });
-  }
+  });
 }
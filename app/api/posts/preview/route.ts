@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { renderMarkdown } from '@/lib/markdown';
+import { apiRoute } from '@/lib/api';
+import { parseBody, z } from '@/lib/validation';
+
+// 미리보기가 서버 부하가 되지 않도록 길이 제한
+const previewBody = z.object({ content: z.string().max(100_000, '내용이 너무 깁니다.').default('') });
+
+// ---------------- POST: 작성/수정 폼의 Markdown 미리보기 ----------------
+// 저장 시와 같은 렌더러/허용 목록을 거친 HTML을 돌려줌
+export async function POST(req: NextRequest) {
+  return apiRoute('posts.preview', async () => {
+    await requireUser(req);
+    const { content } = await parseBody(req, previewBody);
+    return NextResponse.json({ html: renderMarkdown(content) });
+  });
+}
@@ -1,111 +1,135 @@
 // routes/posts.ts
 import { NextRequest, NextResponse } from 'next/server';
-import clientPromise from '@/lib/database';
-import { getUserFromRequest } from '@/lib/auth';
-import { withLogging, createSpan, createManualLogger } from '@/lib/logger-tracing';
-import { ObjectId } from 'mongodb';
+import { requireUser, authorize } from '@/lib/auth';
+import { createSpan, createManualLogger } from '@/lib/logger-tracing';
+import { pageQuery } from '@/lib/pagination';
+import { postInput, tagSlug } from '@/lib/posts';
+import { getRepositories } from '@/lib/repositories';
+import { isEmailVerified } from '@/lib/email-verification';
+import { can } from '@/lib/policy';
+import { apiRoute } from '@/lib/api';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { parseBody, parseQuery, objectId, z } from '@/lib/validation';
+import { recordPostsCreated, recordPostsDeleted } from '@/lib/metrics';
+
+// 정렬 기준 → 정렬할 숫자 필드 (recent는 작성 시각)
+const SORT_FIELDS = { recent: undefined, views: 'viewCount', reactions: 'reactionCount' } as const;
+
+const listQuery = pageQuery.extend({
+  sort: z.enum(['recent', 'views', 'reactions'], { message: 'sort는 recent, views, reactions 중 하나여야 합니다.' }).default('recent'),
+  authorId: z.string().optional(),
+  tag: tagSlug.optional(),
+  from: z.coerce.date({ message: 'from은 올바른 날짜여야 합니다.' }).optional(),
+  to: z.coerce.date({ message: 'to는 올바른 날짜여야 합니다.' }).optional(),
+});
+
+// 선택 삭제는 ids, 본인 글 전체 삭제는 all: true를 명시해야 함 (빈 본문이 전체 삭제가 되지 않도록)
+const deleteBody = z
+  .object({
+    ids: z.array(objectId).min(1, '삭제할 게시글을 선택해주세요.').optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((body) => !body.ids !== !body.all, { message: 'ids 또는 all: true 중 하나를 지정해야 합니다.' });
 
 // ---------------- GET: 게시글 목록 조회 ----------------
+// 쿼리 파라미터: limit, cursor, order(asc|desc), sort(recent|views|reactions), authorId, tag, from, to (ISO 날짜)
 export async function GET(req: NextRequest) {
-  return withLogging('posts.list', async (logger) => {
-    const client = await clientPromise;
-    const db = client.db(process.env.MONGODB_DB || 'app');
-    const posts = db.collection('posts');
-
-    logger.info('게시글 목록 조회 시작');
-
-    const list = await posts
-      .find({}, { projection: { content: 0 } })
-      .sort({ createdAt: -1 })
-      .toArray();
-
-    logger.info('게시글 목록 조회 완료', { count: list.length });
+  return apiRoute('posts.list', async (logger) => {
+    const { authorId, tag, from, to, sort, ...page } = parseQuery(req, listQuery);
+
+    logger.info('게시글 목록 조회 시작', { limit: page.limit, order: page.order, sort, hasCursor: !!page.cursor, tag });
+
+    // 모더레이터가 숨긴 게시글은 목록에서 제외
+    const { posts, comments } = getRepositories();
+    const { items: pageItems, nextCursor } = await posts.list(
+      { authorId, tag, from, to, hidden: 'exclude' },
+      { ...page, sortBy: SORT_FIELDS[sort] }
+    );
+
+    // 목록 항목마다 댓글 수/조회수/반응 수 포함
+    const commentCounts = await comments.countByPosts(pageItems.map((item) => item._id));
+    const items = pageItems.map((item) => ({
+      ...item,
+      commentCount: commentCounts.get(String(item._id)) ?? 0,
+      viewCount: item.viewCount ?? 0,
+      reactionCount: item.reactionCount ?? 0,
+      reactions: item.reactions ?? {},
+    }));
+
+    logger.info('게시글 목록 조회 완료', { count: items.length, hasMore: !!nextCursor });
 
     // 수동 span 생성 및 로그 연동
     await createSpan('posts.list.result', async (span, traceId) => {
       const spanLogger = createManualLogger(traceId);
-      spanLogger.info('게시글 결과 span 기록', { count: list.length });
-      span.setAttribute('posts.count', list.length);
+      spanLogger.info('게시글 결과 span 기록', { count: items.length });
+      span.setAttribute('posts.count', items.length);
     });
 
-    return NextResponse.json({ items: list });
+    return NextResponse.json({ items, nextCursor });
   });
 }
 
 // ---------------- POST: 게시글 작성 ----------------
 export async function POST(req: NextRequest) {
-  return withLogging('posts.create', async (logger) => {
-    const user = getUserFromRequest(req);
-    if (!user) {
-      logger.warn('게시글 작성 시도: 인증되지 않은 사용자');
-      return NextResponse.json({ message: '로그인이 필요합니다.' }, { status: 401 });
-    }
-
-    const { title, content } = await req.json();
-    logger.info('게시글 작성 시도', { titleLength: title?.length, contentLength: content?.length });
+  return apiRoute('posts.create', async (logger) => {
+    const user = await requireUser(req);
+    authorize(user, 'post:create');
 
-    if (!title || !content) {
-      logger.warn('게시글 작성 실패: 필수 필드 누락', { hasTitle: !!title, hasContent: !!content });
-      return NextResponse.json({ message: '제목/내용이 필요합니다.' }, { status: 400 });
+    if (!(await isEmailVerified(user.id))) {
+      throw new ApiError(403, ErrorCode.EMAIL_NOT_VERIFIED, '이메일 인증 후 게시글을 작성할 수 있습니다.');
     }
 
-    const client = await clientPromise;
-    const posts = client.db(process.env.MONGODB_DB || 'app').collection('posts');
+    const { title, content, tags = [] } = await parseBody(req, postInput);
+    logger.info('게시글 작성 시도', { titleLength: title.length, contentLength: content.length, tagCount: tags.length });
 
-    const now = new Date();
-    const doc = { title, content, authorId: user.id, authorEmail: user.email, createdAt: now, updatedAt: now };
-    
     // DB 삽입 단계는 수동 span 사용
-    const result = await createSpan('posts.create.db', async (span, traceId) => {
+    const post = await createSpan('posts.create.db', async (span, traceId) => {
       const spanLogger = createManualLogger(traceId);
-      const res = await posts.insertOne(doc);
-      spanLogger.info('게시글 DB 삽입 완료', { postId: String(res.insertedId) });
-      span.addEvent('posts.inserted', { insertedId: String(res.insertedId) });
-      return res;
+      const { posts, revisions } = getRepositories();
+      const created = await posts.create({ title, content, tags, authorId: user.id, authorEmail: user.email });
+      await revisions.append({ postId: created._id, title, content, editorId: user.id, createdAt: created.createdAt });
+      spanLogger.info('게시글 DB 삽입 완료', { postId: String(created._id) });
+      span.addEvent('posts.inserted', { insertedId: String(created._id) });
+      return created;
     });
 
-    logger.info('게시글 작성 완료', { postId: String(result.insertedId), title: title.substring(0, 50) });
-    return NextResponse.json({ ok: true, id: result.insertedId });
+    logger.info('게시글 작성 완료', { postId: String(post._id), title: title.substring(0, 50) });
+    recordPostsCreated();
+    return NextResponse.json({ ok: true, id: post._id, post });
   });
 }
 
 // ---------------- DELETE: 게시글 삭제 ----------------
 export async function DELETE(req: NextRequest) {
-  return withLogging('posts.deleteAll', async (logger) => {
-    const user = getUserFromRequest(req);
-    if (!user) {
-      logger.warn('게시글 삭제 시도: 인증되지 않은 사용자');
-      return NextResponse.json({ message: '로그인이 필요합니다.' }, { status: 401 });
-    }
+  return apiRoute('posts.deleteAll', async (logger) => {
+    const user = await requireUser(req);
 
-    const { ids } = await req.json();
+    const { ids, all } = await parseBody(req, deleteBody);
     logger.info('게시글 삭제 시도', {
-      deleteType: ids?.length ? 'selected' : 'all',
+      deleteType: all ? 'all' : 'selected',
       deleteCount: ids?.length || 'all'
     });
 
-    const client = await clientPromise;
-    const posts = client.db(process.env.MONGODB_DB || 'app').collection('posts');
+    const { posts } = getRepositories();
 
     // 삭제 단계 수동 span으로 계측
-    const result = await createSpan('posts.delete.db', async (span, traceId) => {
+    // 바로 지우지 않고 휴지통으로 옮김 (댓글은 영구 삭제 때 정리)
+    const deletedCount = await createSpan('posts.delete.db', async (span, traceId) => {
       const spanLogger = createManualLogger(traceId);
-      let res;
-      if (ids?.length) {
-        const objectIds = ids.map((id: string) => new ObjectId(id));
-        res = await posts.deleteMany({ _id: { $in: objectIds }, authorId: user.id });
-      } else {
-        res = await posts.deleteMany({ authorId: user.id });
-      }
-      spanLogger.info('게시글 삭제 완료', { deletedCount: res.deletedCount, deleteType: ids?.length ? 'selected' : 'all' });
-      span.addEvent('posts.deleted', { deletedCount: res.deletedCount, userId: user.id });
-      return res;
+      // 선택 삭제는 권한이 있는 글만, 전체 삭제는 본인 글만 대상
+      const candidates = await posts.findRefs(all ? { authorId: user.id } : { ids });
+      const targetIds = candidates.filter((doc) => can(user, 'post:delete', { authorId: doc.authorId })).map((doc) => doc._id);
+      const count = await posts.trash(targetIds, user.id);
+      spanLogger.info('게시글 휴지통 이동 완료', { deletedCount: count, deleteType: all ? 'all' : 'selected' });
+      span.addEvent('posts.trashed', { deletedCount: count, userId: user.id });
+      return count;
     });
+    recordPostsDeleted('trash', deletedCount);
 
     return NextResponse.json({
       ok: true,
-      deletedCount: result.deletedCount,
-      message: `${result.deletedCount}개의 게시글이 삭제되었습니다.`
+      deletedCount,
+      message: `${deletedCount}개의 게시글을 휴지통으로 옮겼습니다.`
     });
   });
 }
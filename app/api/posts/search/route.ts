@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSpan, createManualLogger } from '@/lib/logger-tracing';
+import { limitQuery, cursorQuery } from '@/lib/pagination';
+import { getRepositories } from '@/lib/repositories';
+import { decodeScoreCursor, extractTerms, highlight, buildSnippet } from '@/lib/search';
+import { apiRoute } from '@/lib/api';
+import { parseQuery, nonEmptyString, z } from '@/lib/validation';
+
+const searchQuery = z.object({
+  q: nonEmptyString('검색어가 필요합니다.'),
+  limit: limitQuery,
+  cursor: cursorQuery(decodeScoreCursor),
+});
+
+// ---------------- GET: 게시글 전문 검색 ----------------
+// 쿼리 파라미터: q (필수), limit, cursor
+export async function GET(req: NextRequest) {
+  return apiRoute('posts.search', async (logger) => {
+    const { q, limit, cursor } = parseQuery(req, searchQuery);
+
+    logger.info('게시글 검색 시작', { queryLength: q.length, limit, hasCursor: !!cursor });
+
+    // 검색 쿼리는 별도 span으로 계측 (검색 지연 시간 추적)
+    const { items: hits, nextCursor } = await createSpan('posts.search.query', async (span, traceId) => {
+      const spanLogger = createManualLogger(traceId);
+      span.setAttribute('search.query_length', q.length);
+      span.setAttribute('search.limit', limit);
+
+      const result = await getRepositories().posts.search(q, limit, cursor);
+      span.setAttribute('search.result_count', result.items.length);
+      spanLogger.debug('게시글 검색 쿼리 완료', { count: result.items.length });
+      return result;
+    });
+
+    const terms = extractTerms(q);
+    const items = hits.map(({ content, ...doc }) => ({
+      ...doc,
+      titleHighlight: highlight(doc.title, terms),
+      snippet: buildSnippet(content, terms),
+    }));
+
+    logger.info('게시글 검색 완료', { count: items.length, hasMore: !!nextCursor });
+    return NextResponse.json({ items, nextCursor });
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { createSpan, createManualLogger } from '@/lib/logger-tracing';
+import { pageQuery } from '@/lib/pagination';
+import { getRepositories } from '@/lib/repositories';
+import { deletePostsPermanently, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { can } from '@/lib/policy';
+import { apiRoute } from '@/lib/api';
+import { parseBody, parseQuery, objectId, z } from '@/lib/validation';
+
+// 선택 삭제는 ids, 휴지통 비우기는 all: true를 명시해야 함 (되돌릴 수 없으므로 빈 본문은 거부)
+const deleteBody = z
+  .object({
+    ids: z.array(objectId).min(1, '삭제할 게시글을 선택해주세요.').optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((body) => !body.ids !== !body.all, { message: 'ids 또는 all: true 중 하나를 지정해야 합니다.' });
+
+// ---------------- GET: 휴지통 (본인이 옮긴 본인 글, 모더레이터가 옮긴 글은 제외) ----------------
+// 쿼리 파라미터: limit, cursor, order
+export async function GET(req: NextRequest) {
+  return apiRoute('posts.trash.list', async () => {
+    const user = await requireUser(req);
+    const page = parseQuery(req, pageQuery);
+
+    const result = await getRepositories().posts.list({ authorId: user.id, deletedBy: user.id, hidden: 'any', trashed: true }, page);
+    return NextResponse.json({ ...result, retentionDays: TRASH_RETENTION_DAYS });
+  });
+}
+
+// ---------------- DELETE: 휴지통 게시글 영구 삭제 ----------------
+export async function DELETE(req: NextRequest) {
+  return apiRoute('posts.trash.delete', async (logger) => {
+    const user = await requireUser(req);
+    const { ids, all } = await parseBody(req, deleteBody);
+    logger.info('게시글 영구 삭제 시도', { deleteType: all ? 'all' : 'selected', deleteCount: ids?.length || 'all' });
+
+    const deletedCount = await createSpan('posts.trash.delete.db', async (span, traceId) => {
+      const spanLogger = createManualLogger(traceId);
+      const candidates = await getRepositories().posts.findRefs(
+        all ? { authorId: user.id, trashed: true } : { ids, trashed: true }
+      );
+      const targetIds = candidates
+        .filter((doc) => can(user, 'post:restore', { authorId: doc.authorId, deletedBy: doc.deletedBy }))
+        .map((doc) => doc._id);
+      const count = await deletePostsPermanently(targetIds);
+      spanLogger.info('게시글 영구 삭제 완료', { deletedCount: count });
+      span.addEvent('posts.deleted', { deletedCount: count, userId: user.id });
+      return count;
+    });
+
+    return NextResponse.json({
+      ok: true,
+      deletedCount,
+      message: `${deletedCount}개의 게시글이 영구 삭제되었습니다.`,
+    });
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { limitQuery } from '@/lib/pagination';
+import { getRepositories } from '@/lib/repositories';
+import { apiRoute } from '@/lib/api';
+import { parseQuery, z } from '@/lib/validation';
+
+const tagsQuery = z.object({ limit: limitQuery });
+
+// ---------------- GET: 태그별 게시글 수 (많은 순) ----------------
+// 숨김/휴지통 게시글은 세지 않음
+export async function GET(req: NextRequest) {
+  return apiRoute('tags.list', async () => {
+    const { limit } = parseQuery(req, tagsQuery);
+    const items = await getRepositories().posts.tagCounts(limit);
+    return NextResponse.json({ items });
+  });
+}
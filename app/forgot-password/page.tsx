@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const res = await fetch('/api/auth/forgot-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    if (res.ok) {
+      setSent(true);
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '요청 실패');
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <div className="w-full max-w-sm space-y-6">
+        <h1 className="text-2xl font-bold text-center">비밀번호 찾기</h1>
+        {sent ? (
+          <p className="text-sm text-center">
+            가입된 이메일이라면 비밀번호 재설정 링크를 보냈습니다. 메일함을 확인해주세요.
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="email" className="block text-sm font-medium">이메일</label>
+              <input
+                id="email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full rounded-md border px-3 py-2 outline-none focus:ring-2 focus:ring-foreground/40"
+                placeholder="you@example.com"
+              />
+            </div>
+            <button
+              type="submit"
+              className="w-full rounded-md bg-foreground text-background py-2 font-medium hover:opacity-90 transition"
+            >
+              재설정 링크 받기
+            </button>
+          </form>
+        )}
+        <div className="text-center">
+          <Link href="/login" className="text-sm underline">로그인으로</Link>
+        </div>
+      </div>
+    </main>
+  );
+}
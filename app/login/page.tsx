@@ -1,12 +1,36 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 
+// 로그인 후 돌아갈 경로 (다른 사이트로 보내는 값은 무시)
+// 문자열 검사 대신 브라우저와 같은 방식으로 해석해 origin을 비교 (예: '/\t/evil.com'은 evil.com으로 해석됨)
+function nextPath() {
+  const next = new URLSearchParams(location.search).get('next');
+  if (!next) return '/posts';
+  try {
+    const url = new URL(next, location.origin);
+    if (url.origin !== location.origin) return '/posts';
+    return url.pathname + url.search + url.hash;
+  } catch {
+    return '/posts';
+  }
+}
+
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
 
+  // 보호된 페이지에서 넘어온 경우: access 토큰만 만료됐으면 refresh 토큰으로 갱신하고 바로 돌아감
+  useEffect(() => {
+    if (!new URLSearchParams(location.search).has('next')) return;
+    fetch('/api/auth/refresh', { method: 'POST' })
+      .then((res) => {
+        if (res.ok) location.replace(nextPath());
+      })
+      .catch(() => {});
+  }, []);
+
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     const res = await fetch('/api/auth/login', {
@@ -16,7 +40,7 @@ export default function LoginPage() {
     });
     if (res.ok) {
       alert('로그인 성공');
-      location.href = '/posts';
+      location.href = nextPath();
     } else {
       const data = await res.json().catch(() => ({}));
       alert(data?.message || '로그인 실패');
@@ -62,6 +86,9 @@ export default function LoginPage() {
         <div className="text-sm text-center">
           계정이 없으신가요? <Link href="/signup" className="underline">회원가입</Link>
         </div>
+        <div className="text-sm text-center">
+          <Link href="/forgot-password" className="underline">비밀번호를 잊으셨나요?</Link>
+        </div>
         <div className="text-center">
           <Link href="/" className="text-sm underline">메인으로</Link>
         </div>
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api-client';
+
+const DEBOUNCE_MS = 300;
+
+/**
+ * 입력 중인 Markdown을 서버에서 렌더링해 보여줌
+ * 저장 후 보이는 HTML과 같은 렌더러/허용 목록을 사용
+ */
+export default function MarkdownPreview({ content }: { content: string }) {
+  const [html, setHtml] = useState('');
+
+  useEffect(() => {
+    if (!content.trim()) {
+      setHtml('');
+      return;
+    }
+
+    // 입력이 멈춘 뒤에만 요청하고, 늦게 도착한 이전 응답은 버림
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const res = await apiFetch('/api/posts/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+      if (!cancelled && res.ok) {
+        const data = await res.json();
+        setHtml(data.html);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [content]);
+
+  if (!html) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-500">미리보기</div>
+      <div className="markdown-body rounded-md border p-3" dangerouslySetInnerHTML={{ __html: html }} />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import Link from 'next/link';
+
+type Props = {
+  tags?: string[];
+  // 있으면 버튼으로 목록 필터를 바꾸고, 없으면 태그 필터가 걸린 목록으로 이동
+  onSelect?: (tag: string) => void;
+  active?: string;
+};
+
+const CHIP = 'inline-block rounded-full border px-2 py-0.5 text-xs hover:bg-gray-200';
+
+/**
+ * 쉼표로 구분한 입력을 태그 배열로 (정규화는 서버에서)
+ */
+export function parseTagsInput(input: string) {
+  return input.split(',').map((tag) => tag.trim()).filter(Boolean);
+}
+
+export default function TagChips({ tags, onSelect, active }: Props) {
+  if (!tags?.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) =>
+        onSelect ? (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onSelect(tag)}
+            className={`${CHIP} ${tag === active ? 'bg-foreground text-background' : ''}`}
+          >
+            #{tag}
+          </button>
+        ) : (
+          <Link key={tag} href={`/posts?tag=${encodeURIComponent(tag)}`} className={CHIP}>
+            #{tag}
+          </Link>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiFetch } from '@/lib/api-client';
+
+type Attachment = {
+  _id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+};
+
+type Props = { postId: string; canManage: boolean };
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function Attachments({ postId, canManage }: Props) {
+  const [items, setItems] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    const res = await apiFetch(`/api/posts/${postId}/attachments`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setItems(data.items || []);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function upload(files: FileList | null) {
+    if (!files?.length) return;
+
+    const form = new FormData();
+    for (const file of Array.from(files)) form.append('file', file);
+
+    setUploading(true);
+    const res = await apiFetch(`/api/posts/${postId}/attachments`, { method: 'POST', body: form });
+    setUploading(false);
+    if (inputRef.current) inputRef.current.value = '';
+
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '업로드 실패');
+    }
+    load();
+  }
+
+  async function remove(attachment: Attachment) {
+    if (!confirm(`'${attachment.filename}' 파일을 삭제하시겠습니까?`)) return;
+
+    const res = await apiFetch(`/api/posts/${postId}/attachments/${attachment._id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setItems(prev => prev.filter(a => a._id !== attachment._id));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '삭제 실패');
+    }
+  }
+
+  if (!items.length && !canManage) return null;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="font-semibold">첨부 파일 {items.length}</h2>
+
+      <ul className="space-y-2">
+        {items.map((a) => {
+          const url = `/api/posts/${postId}/attachments/${a._id}`;
+          return (
+            <li key={a._id} className="border rounded-md p-3 flex items-center justify-between gap-3 text-sm">
+              <a href={url} className="flex items-center gap-3 min-w-0 hover:underline">
+                {a.hasThumbnail && (
+                  // 로그인 쿠키가 필요한 라우트라 next/image 최적화를 거치지 않음
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={`${url}?thumbnail=1`} alt="" className="h-12 w-12 rounded object-cover shrink-0" />
+                )}
+                <span className="truncate">{a.filename}</span>
+                <span className="text-xs text-gray-500 shrink-0">{formatSize(a.size)}</span>
+              </a>
+              {canManage && (
+                <button onClick={() => remove(a)} className="px-2 py-1 text-xs border rounded hover:bg-gray-200 shrink-0">
+                  삭제
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canManage && (
+        <label className="inline-block px-3 py-1 text-sm border rounded hover:bg-gray-200 cursor-pointer">
+          {uploading ? '올리는 중...' : '파일 첨부'}
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            className="hidden"
+            disabled={uploading}
+            onChange={(e) => upload(e.target.files)}
+          />
+        </label>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api-client';
+import { can, Actor } from '@/lib/policy';
+
+type Comment = {
+  _id: string;
+  parentId: string | null;
+  content: string;
+  authorId: string;
+  authorEmail?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+type Thread = Comment & { replies: Comment[] };
+
+type Props = { postId: string; postAuthorId: string; me: Actor | null };
+
+export default function CommentSection({ postId, postAuthorId, me }: Props) {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [count, setCount] = useState(0);
+  const [content, setContent] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+
+  const load = useCallback(async () => {
+    const res = await apiFetch(`/api/posts/${postId}/comments`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setThreads(data.items || []);
+      setCount(data.count || 0);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function create(body: { content: string; parentId?: string }) {
+    const res = await apiFetch(`/api/posts/${postId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '댓글 작성 실패 (로그인 필요)');
+      return false;
+    }
+    await load();
+    return true;
+  }
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (await create({ content })) setContent('');
+  }
+
+  async function onReply(e: React.FormEvent<HTMLFormElement>, parentId: string) {
+    e.preventDefault();
+    if (await create({ content: replyContent, parentId })) {
+      setReplyContent('');
+      setReplyTo(null);
+    }
+  }
+
+  async function onUpdate(e: React.FormEvent<HTMLFormElement>, commentId: string) {
+    e.preventDefault();
+    const res = await apiFetch(`/api/posts/${postId}/comments/${commentId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: editContent }),
+    });
+    if (res.ok) {
+      setEditingId(null);
+      load();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '댓글 수정 실패');
+    }
+  }
+
+  async function onDelete(comment: Comment) {
+    const message = comment.parentId ? '답글을 삭제하시겠습니까?' : '댓글과 답글을 모두 삭제하시겠습니까?';
+    if (!confirm(message)) return;
+
+    const res = await apiFetch(`/api/posts/${postId}/comments/${comment._id}`, { method: 'DELETE' });
+    if (res.ok) {
+      load();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '댓글 삭제 실패');
+    }
+  }
+
+  function renderComment(comment: Comment) {
+    const canEdit = can(me, 'comment:update', { authorId: comment.authorId });
+    const canDelete = can(me, 'comment:delete', { authorId: comment.authorId, postAuthorId });
+
+    return (
+      <div className="space-y-1">
+        <div className="text-xs text-gray-500">
+          {comment.authorEmail || '익명'} • {comment.createdAt ? new Date(comment.createdAt).toLocaleString() : ''}
+        </div>
+        {editingId === comment._id ? (
+          <form onSubmit={(e) => onUpdate(e, comment._id)} className="flex gap-2">
+            <input
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="flex-1 rounded-md border px-2 py-1 text-sm"
+              required
+            />
+            <button type="submit" className="text-sm underline">저장</button>
+            <button type="button" onClick={() => setEditingId(null)} className="text-sm underline">취소</button>
+          </form>
+        ) : (
+          <div className="whitespace-pre-wrap text-sm">{comment.content}</div>
+        )}
+        <div className="flex gap-3 text-xs">
+          {!comment.parentId && can(me, 'comment:create') && (
+            <button onClick={() => setReplyTo(replyTo === comment._id ? null : comment._id)} className="underline">
+              답글
+            </button>
+          )}
+          {canEdit && editingId !== comment._id && (
+            <button
+              onClick={() => {
+                setEditingId(comment._id);
+                setEditContent(comment.content);
+              }}
+              className="underline"
+            >
+              수정
+            </button>
+          )}
+          {canDelete && (
+            <button onClick={() => onDelete(comment)} className="underline text-red-600">삭제</button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <h2 className="font-semibold">댓글 {count}</h2>
+
+      {can(me, 'comment:create') && (
+        <form onSubmit={onSubmit} className="flex gap-2">
+          <input
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="댓글을 입력하세요"
+            className="flex-1 rounded-md border px-3 py-2"
+            required
+          />
+          <button type="submit" className="rounded-md bg-foreground text-background px-4 py-2">
+            등록
+          </button>
+        </form>
+      )}
+
+      <ul className="space-y-3">
+        {threads.map((thread) => (
+          <li key={thread._id} className="border rounded-md p-3 space-y-3">
+            {renderComment(thread)}
+            {replyTo === thread._id && (
+              <form onSubmit={(e) => onReply(e, thread._id)} className="flex gap-2 pl-4">
+                <input
+                  value={replyContent}
+                  onChange={(e) => setReplyContent(e.target.value)}
+                  placeholder="답글을 입력하세요"
+                  className="flex-1 rounded-md border px-2 py-1 text-sm"
+                  required
+                />
+                <button type="submit" className="text-sm underline">등록</button>
+              </form>
+            )}
+            {thread.replies.length > 0 && (
+              <ul className="space-y-2 pl-4 border-l">
+                {thread.replies.map((reply) => (
+                  <li key={reply._id}>{renderComment(reply)}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { apiFetch } from '@/lib/api-client';
+import { REACTIONS, Reaction } from '@/lib/reactions';
+
+type Props = {
+  postId: string;
+  initialCounts?: Partial<Record<Reaction, number>>;
+  initialMine: Reaction[];
+  // 비로그인이면 눌러도 로그인 안내만
+  canReact: boolean;
+};
+
+export default function Reactions({ postId, initialCounts, initialMine, canReact }: Props) {
+  const [counts, setCounts] = useState(initialCounts ?? {});
+  const [mine, setMine] = useState<Reaction[]>(initialMine);
+  const [pending, setPending] = useState(false);
+
+  async function toggle(emoji: Reaction) {
+    if (!canReact) {
+      alert('로그인 후 반응을 남길 수 있습니다.');
+      return;
+    }
+
+    setPending(true);
+    const res = await apiFetch(`/api/posts/${postId}/reactions`, {
+      method: mine.includes(emoji) ? 'DELETE' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emoji }),
+    });
+    setPending(false);
+
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setCounts(data.reactions);
+      setMine(data.myReactions);
+    } else {
+      alert(data?.message || '반응 실패');
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {REACTIONS.map((emoji) => (
+        <button
+          key={emoji}
+          onClick={() => toggle(emoji)}
+          disabled={pending}
+          className={`rounded-full border px-3 py-1 text-sm hover:bg-gray-100 disabled:opacity-50 ${
+            mine.includes(emoji) ? 'border-blue-500 bg-blue-50' : ''
+          }`}
+        >
+          {emoji} {counts[emoji] || ''}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api-client';
+
+type Revision = {
+  _id: string;
+  version: number;
+  title: string;
+  editorId: string;
+  restoredFrom?: number;
+  createdAt: string;
+};
+
+type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+type Diff = { from: number; to: number; title: DiffLine[]; content: DiffLine[] };
+
+// updatedAt이 바뀌면 (수정/복원 후) 이력을 다시 불러옴
+// etag: 지금 보고 있는 게시글 버전 (복원 요청의 If-Match)
+type Props = { postId: string; updatedAt?: string; etag: string | null; canRestore: boolean; onRestored: () => void };
+
+const LINE_STYLE: Record<DiffLine['type'], string> = {
+  same: '',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+function DiffLines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <pre className="text-xs whitespace-pre-wrap border rounded-md overflow-hidden">
+      {lines.map((line, i) => (
+        <div key={i} className={`px-2 ${LINE_STYLE[line.type]}`}>
+          {LINE_PREFIX[line.type]} {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export default function RevisionHistory({ postId, updatedAt, etag, canRestore, onRestored }: Props) {
+  const [items, setItems] = useState<Revision[]>([]);
+  const [open, setOpen] = useState(false);
+  const [diff, setDiff] = useState<Diff | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await apiFetch(`/api/posts/${postId}/revisions`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setItems(data.items || []);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    load();
+    setDiff(null);
+  }, [load, updatedAt]);
+
+  async function compare(from: number, to: number) {
+    const params = new URLSearchParams({ from: String(from), to: String(to) });
+    const res = await apiFetch(`/api/posts/${postId}/revisions/diff?${params}`, { cache: 'no-store' });
+    if (res.ok) {
+      setDiff(await res.json());
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '비교 실패');
+    }
+  }
+
+  async function restore(revision: Revision) {
+    if (!confirm(`v${revision.version} 내용으로 복원하시겠습니까? 현재 내용은 이력에 남습니다.`)) return;
+
+    const res = await apiFetch(`/api/posts/${postId}/revisions/${revision.version}/restore`, {
+      method: 'POST',
+      headers: etag ? { 'If-Match': etag } : {},
+    });
+    if (res.ok) {
+      onRestored();
+    } else if (res.status === 412) {
+      alert('다른 곳에서 게시글이 먼저 수정되었습니다. 최신 내용을 확인한 뒤 다시 시도해주세요.');
+      onRestored();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '복원 실패');
+    }
+  }
+
+  // 작성 후 한 번도 수정하지 않은 글은 표시하지 않음
+  if (items.length < 2) return null;
+
+  const latest = items[0].version;
+
+  return (
+    <section className="space-y-3">
+      <button onClick={() => setOpen(!open)} className="font-semibold">
+        수정 이력 {items.length - 1} {open ? '▲' : '▼'}
+      </button>
+
+      {open && (
+        <>
+          <ul className="space-y-2">
+            {items.map((r) => (
+              <li key={r._id} className="border rounded-md p-3 flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <div className="font-medium">
+                    v{r.version} {r.title}
+                    {r.version === latest && <span className="ml-2 text-xs text-green-600">현재</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(r.createdAt).toLocaleString()}
+                    {r.restoredFrom && <> • v{r.restoredFrom}에서 복원</>}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {r.version > 1 && (
+                    <button onClick={() => compare(r.version - 1, r.version)} className="px-2 py-1 text-xs border rounded hover:bg-gray-200">
+                      변경 내용
+                    </button>
+                  )}
+                  {r.version !== latest && (
+                    <button onClick={() => compare(r.version, latest)} className="px-2 py-1 text-xs border rounded hover:bg-gray-200">
+                      현재와 비교
+                    </button>
+                  )}
+                  {canRestore && r.version !== latest && (
+                    <button onClick={() => restore(r)} className="px-2 py-1 text-xs border rounded hover:bg-gray-200">
+                      복원
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {diff && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>v{diff.from} → v{diff.to}</span>
+                <button onClick={() => setDiff(null)} className="underline text-xs">닫기</button>
+              </div>
+              <DiffLines lines={diff.title} />
+              <DiffLines lines={diff.content} />
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+import CommentSection from './CommentSection';
+import RevisionHistory from './RevisionHistory';
+import Attachments from './Attachments';
+import Reactions from './Reactions';
+import MarkdownPreview from '../MarkdownPreview';
+import TagChips, { parseTagsInput } from '../TagChips';
+import { can, Role } from '@/lib/policy';
+import { Reaction } from '@/lib/reactions';
+
+type Post = {
+  _id: string;
+  title: string;
+  content: string;
+  // 서버에서 렌더링/정리된 HTML
+  contentHtml?: string;
+  authorId: string;
+  authorEmail?: string;
+  tags?: string[];
+  viewCount?: number;
+  reactions?: Partial<Record<Reaction, number>>;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+type Me = { id: string; email: string; role: Role };
+
+// 수정 중 다른 곳에서 먼저 저장된 경우 서버의 현재 글과 새 ETag
+type Conflict = { post: Post; etag: string | null };
+
+export default function PostDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [post, setPost] = useState<Post | null>(null);
+  const [myReactions, setMyReactions] = useState<Reaction[] | null>(null);
+  const [me, setMe] = useState<Me | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [etag, setEtag] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await apiFetch(`/api/posts/${id}`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setPost(data.post);
+      setMyReactions(data.myReactions ?? []);
+      setEtag(res.headers.get('ETag'));
+    } else {
+      setNotFound(true);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    apiFetch('/api/auth/me', { cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setMe(data?.user ?? null));
+  }, []);
+
+  const canEdit = !!post && can(me, 'post:update', { authorId: post.authorId });
+  const canDelete = !!post && can(me, 'post:delete', { authorId: post.authorId });
+
+  function startEdit() {
+    if (!post) return;
+    setTitle(post.title);
+    setContent(post.content);
+    setTagsInput((post.tags ?? []).join(', '));
+    setEditing(true);
+  }
+
+  function ifMatch(tag: string | null): Record<string, string> {
+    return tag ? { 'If-Match': tag } : {};
+  }
+
+  async function save(baseEtag: string | null) {
+    const res = await apiFetch(`/api/posts/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...ifMatch(baseEtag) },
+      body: JSON.stringify({ title, content, tags: parseTagsInput(tagsInput) }),
+    });
+    if (res.ok) {
+      setEditing(false);
+      setConflict(null);
+      load();
+    } else if (res.status === 412) {
+      const data = await res.json().catch(() => ({}));
+      setConflict({ post: data?.details?.post, etag: res.headers.get('ETag') });
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '수정 실패');
+    }
+  }
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    await save(etag);
+  }
+
+  // 충돌: 서버 내용을 받아 편집을 다시 시작
+  function editServerVersion() {
+    if (!conflict) return;
+    setPost(conflict.post);
+    setEtag(conflict.etag);
+    setTitle(conflict.post.title);
+    setContent(conflict.post.content);
+    setTagsInput((conflict.post.tags ?? []).join(', '));
+    setConflict(null);
+  }
+
+  // 충돌: 서버 내용을 확인한 뒤 내 내용으로 덮어씀
+  async function overwrite() {
+    if (!conflict) return;
+    setEtag(conflict.etag);
+    await save(conflict.etag);
+  }
+
+  async function onDelete() {
+    if (!confirm('이 게시글을 휴지통으로 옮기시겠습니까?')) {
+      return;
+    }
+
+    const res = await apiFetch(`/api/posts/${id}`, { method: 'DELETE', headers: ifMatch(etag) });
+    if (res.ok) {
+      alert('휴지통으로 옮겼습니다.');
+      router.push('/posts');
+    } else if (res.status === 412) {
+      alert('다른 곳에서 게시글이 수정되었습니다. 최신 내용을 확인한 뒤 다시 시도해주세요.');
+      load();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '삭제 실패');
+    }
+  }
+
+  if (notFound) {
+    return (
+      <main className="min-h-screen p-8 max-w-2xl mx-auto space-y-4">
+        <p>게시글을 찾을 수 없습니다.</p>
+        <Link href="/posts" className="underline text-sm">목록으로</Link>
+      </main>
+    );
+  }
+
+  if (!post) {
+    return <main className="min-h-screen p-8 max-w-2xl mx-auto">불러오는 중...</main>;
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-2xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <Link href="/posts" className="underline text-sm">목록으로</Link>
+        {(canEdit || canDelete) && !editing && (
+          <div className="flex gap-2">
+            {canEdit && (
+              <button
+                onClick={startEdit}
+                className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
+              >
+                수정
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={onDelete}
+                className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+              >
+                삭제
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <form onSubmit={onSubmit} className="space-y-3 border rounded-md p-4">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="제목"
+            className="w-full rounded-md border px-3 py-2"
+            required
+          />
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="내용 (Markdown 지원)"
+            className="w-full rounded-md border px-3 py-2 min-h-[200px] font-mono text-sm"
+            required
+          />
+          <MarkdownPreview content={content} />
+          <input
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="태그 (쉼표로 구분)"
+            className="w-full rounded-md border px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button type="submit" className="rounded-md bg-foreground text-background px-4 py-2">
+              저장
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="rounded-md border px-4 py-2"
+            >
+              취소
+            </button>
+          </div>
+        </form>
+      ) : (
+        <article className="space-y-4">
+          <h1 className="text-2xl font-bold">{post.title}</h1>
+          <div className="text-xs text-gray-500">
+            {post.authorEmail || '익명'} • {post.createdAt ? new Date(post.createdAt).toLocaleString() : ''}
+            {post.updatedAt && post.updatedAt !== post.createdAt && (
+              <> • 수정됨 {new Date(post.updatedAt).toLocaleString()}</>
+            )}
+            {post.viewCount !== undefined && <> • 조회 {post.viewCount}</>}
+          </div>
+          <TagChips tags={post.tags} />
+          {post.contentHtml !== undefined ? (
+            <div className="markdown-body" dangerouslySetInnerHTML={{ __html: post.contentHtml }} />
+          ) : (
+            <div className="whitespace-pre-wrap">{post.content}</div>
+          )}
+        </article>
+      )}
+
+      {conflict && (
+        <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-lg space-y-4 rounded-md bg-background p-6 shadow-lg">
+            <h2 className="text-lg font-semibold">수정 충돌</h2>
+            <p className="text-sm">
+              편집하는 동안 다른 곳에서 게시글이 먼저 저장되었습니다. 아래는 서버에 저장된 현재 내용입니다.
+            </p>
+            <div className="max-h-64 space-y-2 overflow-auto rounded-md border p-3">
+              <div className="font-medium">{conflict.post.title}</div>
+              <div className="text-xs text-gray-500">
+                {conflict.post.updatedAt && <>수정됨 {new Date(conflict.post.updatedAt).toLocaleString()}</>}
+              </div>
+              <div className="whitespace-pre-wrap text-sm">{conflict.post.content}</div>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button onClick={() => setConflict(null)} className="rounded-md border px-4 py-2 text-sm">
+                계속 편집
+              </button>
+              <button onClick={editServerVersion} className="rounded-md border px-4 py-2 text-sm">
+                서버 내용으로 다시 편집
+              </button>
+              <button onClick={overwrite} className="rounded-md bg-red-500 px-4 py-2 text-sm text-white hover:bg-red-600">
+                내 내용으로 덮어쓰기
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {myReactions && (
+        <Reactions
+          key={post.updatedAt}
+          postId={post._id}
+          initialCounts={post.reactions}
+          initialMine={myReactions}
+          canReact={!!me}
+        />
+      )}
+
+      <Attachments postId={post._id} canManage={canEdit} />
+
+      <RevisionHistory postId={post._id} updatedAt={post.updatedAt} etag={etag} canRestore={canEdit} onRestored={load} />
+
+      <CommentSection postId={post._id} postAuthorId={post.authorId} me={me} />
+    </main>
+  );
+}
@@ -1,39 +1,166 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+import { can, Role } from '@/lib/policy';
+import MarkdownPreview from './MarkdownPreview';
+import TagChips, { parseTagsInput } from './TagChips';
 
-type Post = { _id: string; title: string; authorEmail?: string; createdAt?: string };
+type Highlight = { text: string; match: boolean }[];
+
+type Post = {
+  _id: string;
+  title: string;
+  authorId?: string;
+  authorEmail?: string;
+  tags?: string[];
+  createdAt?: string;
+  commentCount?: number;
+  viewCount?: number;
+  reactionCount?: number;
+  // 검색 결과에만 포함
+  titleHighlight?: Highlight;
+  snippet?: Highlight;
+};
+
+type Filters = { sort: 'recent' | 'views' | 'reactions'; order: 'asc' | 'desc'; from: string; to: string; mineOnly: boolean; tag: string };
+
+type TagCount = { tag: string; count: number };
+
+const PAGE_SIZE = 20;
+
+function Highlighted({ parts }: { parts: Highlight }) {
+  return (
+    <>
+      {parts.map((part, i) => (part.match ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>))}
+    </>
+  );
+}
 
 export default function PostsPage() {
   const [items, setItems] = useState<Post[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<Filters>({ sort: 'recent', order: 'desc', from: '', to: '', mineOnly: false, tag: '' });
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [meId, setMeId] = useState<string | null>(null);
+  const [meRole, setMeRole] = useState<Role | undefined>(undefined);
+  const [emailVerified, setEmailVerified] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [query, setQuery] = useState('');
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
-  async function load() {
-    const res = await fetch('/api/posts', { cache: 'no-store' });
+  const me = meId ? { id: meId, role: meRole } : null;
+
+  const buildQuery = useCallback((cursor?: string | null) => {
+    if (query) {
+      const params = new URLSearchParams({ q: query, limit: String(PAGE_SIZE) });
+      if (cursor) params.set('cursor', cursor);
+      return `/api/posts/search?${params}`;
+    }
+
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort: filters.sort, order: filters.order });
+    if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+    if (filters.mineOnly && meId) params.set('authorId', meId);
+    if (filters.tag) params.set('tag', filters.tag);
+    if (cursor) params.set('cursor', cursor);
+    return `/api/posts?${params}`;
+  }, [filters, meId, query]);
+
+  // cursor가 없으면 첫 페이지부터 다시 조회, 있으면 이어서 추가
+  const load = useCallback(async (cursor?: string | null) => {
+    setLoading(true);
+    try {
+      const res = await apiFetch(buildQuery(cursor), { cache: 'no-store' });
+      if (res.ok) {
+        const data = await res.json();
+        const page: Post[] = data.items || [];
+        setItems(prev => (cursor ? [...prev, ...page] : page));
+        setNextCursor(data.nextCursor || null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [buildQuery]);
+
+  async function loadTags() {
+    const res = await apiFetch('/api/tags', { cache: 'no-store' });
     if (res.ok) {
       const data = await res.json();
-      setItems(data.items || []);
+      setTagCounts(data.items || []);
     }
   }
 
   useEffect(() => {
-    load();
+    // 상세 페이지의 태그 링크(/posts?tag=...)로 들어온 경우
+    const tag = new URLSearchParams(location.search).get('tag');
+    if (tag) setFilters(prev => ({ ...prev, tag }));
+    loadTags();
   }, []);
 
+  useEffect(() => {
+    apiFetch('/api/auth/me', { cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        setMeId(data?.user?.id ?? null);
+        setMeRole(data?.user?.role);
+        setEmailVerified(data?.user?.emailVerified ?? true);
+      });
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function updateFilters(patch: Partial<Filters>) {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setSelectedIds([]);
+  }
+
+  // 같은 태그를 다시 누르면 필터 해제, 검색 중이면 검색을 끝내고 태그 목록으로
+  function selectTag(tag: string) {
+    const next = filters.tag === tag ? '' : tag;
+    history.replaceState(null, '', next ? `/posts?tag=${encodeURIComponent(next)}` : '/posts');
+    setSearchInput('');
+    setQuery('');
+    updateFilters({ tag: next });
+  }
+
+  function onSearch(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setQuery(searchInput.trim());
+    setSelectedIds([]);
+  }
+
+  function clearSearch() {
+    setSearchInput('');
+    setQuery('');
+    setSelectedIds([]);
+  }
+
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
-    const res = await fetch('/api/posts', {
+    const res = await apiFetch('/api/posts', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ title, content }),
+      body: JSON.stringify({ title, content, tags: parseTagsInput(tagsInput) }),
     });
     if (res.ok) {
+      const data = await res.json();
       setTitle('');
       setContent('');
-      load();
+      setTagsInput('');
+      // 최신순 첫 화면이면 새 글을 맨 앞에 끼워 넣고, 그 외에는 목록을 그대로 둔다
+      const matchesTag = !filters.tag || data.post?.tags?.includes(filters.tag);
+      if (!query && filters.sort === 'recent' && filters.order === 'desc' && !filters.to && matchesTag && data.post) {
+        setItems(prev => [data.post, ...prev]);
+      }
+      loadTags();
     } else {
       const data = await res.json().catch(() => ({}));
       alert(data?.message || '작성 실패 (로그인 필요)');
@@ -46,11 +173,11 @@ export default function PostsPage() {
       return;
     }
 
-    if (!confirm(`선택한 ${selectedIds.length}개의 게시글을 삭제하시겠습니까?`)) {
+    if (!confirm(`선택한 ${selectedIds.length}개의 게시글을 휴지통으로 옮기시겠습니까?`)) {
       return;
     }
 
-    const res = await fetch('/api/posts', {
+    const res = await apiFetch('/api/posts', {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ ids: selectedIds }),
@@ -59,8 +186,10 @@ export default function PostsPage() {
     if (res.ok) {
       const data = await res.json();
       alert(data.message);
+      setItems(prev =>
+        prev.filter(item => !selectedIds.includes(item._id) || !can(me, 'post:delete', { authorId: item.authorId }))
+      );
       setSelectedIds([]);
-      load();
     } else {
       const data = await res.json().catch(() => ({}));
       alert(data?.message || '삭제 실패');
@@ -68,21 +197,21 @@ export default function PostsPage() {
   }
 
   async function deleteAll() {
-    if (!confirm('모든 게시글을 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.')) {
+    if (!confirm('내 게시글을 모두 휴지통으로 옮기시겠습니까? 휴지통에서 복원할 수 있습니다.')) {
       return;
     }
 
-    const res = await fetch('/api/posts', {
+    const res = await apiFetch('/api/posts', {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({}),
+      body: JSON.stringify({ all: true }),
     });
 
     if (res.ok) {
       const data = await res.json();
       alert(data.message);
+      setItems(prev => prev.filter(item => item.authorId !== meId));
       setSelectedIds([]);
-      load();
     } else {
       const data = await res.json().catch(() => ({}));
       alert(data?.message || '삭제 실패');
@@ -105,23 +234,39 @@ export default function PostsPage() {
     }
   }
 
+  async function resendVerification() {
+    const res = await apiFetch('/api/auth/verify/resend', { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    alert(data?.message || (res.ok ? '인증 메일을 다시 보냈습니다.' : '재발송 실패'));
+  }
+
   async function logout() {
-    await fetch('/api/auth/logout', { method: 'POST' });
+    await apiFetch('/api/auth/logout', { method: 'POST' });
     alert('로그아웃 되었습니다.');
     location.href = '/';
   }
 
   return (
-    <main className="min-h-screen p-8 max-w-2xl mx-auto space-y-8">
+    <main className="min-h-screen p-8 max-w-4xl mx-auto space-y-8">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">게시판</h1>
         <div className="space-x-3">
           <Link href="/" className="underline text-sm">메인</Link>
           <Link href="/login" className="underline text-sm">로그인</Link>
+          <Link href="/sessions" className="underline text-sm">로그인 기기</Link>
+          {meId && <Link href="/posts/trash" className="underline text-sm">휴지통</Link>}
+          {can(me, 'admin:access') && <Link href="/admin" className="underline text-sm">관리</Link>}
           <button onClick={logout} className="underline text-sm">로그아웃</button>
         </div>
       </div>
 
+      {!emailVerified && (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-yellow-400 bg-yellow-50 p-3 text-sm">
+          <span>이메일 인증 후 게시글을 작성할 수 있습니다.</span>
+          <button onClick={resendVerification} className="underline whitespace-nowrap">인증 메일 재발송</button>
+        </div>
+      )}
+
       <form onSubmit={onSubmit} className="space-y-3 border rounded-md p-4">
         <input
           value={title}
@@ -133,60 +278,182 @@ export default function PostsPage() {
         <textarea
           value={content}
           onChange={(e) => setContent(e.target.value)}
-          placeholder="내용"
-          className="w-full rounded-md border px-3 py-2 min-h-[120px]"
+          placeholder="내용 (Markdown 지원)"
+          className="w-full rounded-md border px-3 py-2 min-h-[120px] font-mono text-sm"
           required
         />
+        <MarkdownPreview content={content} />
+        <input
+          value={tagsInput}
+          onChange={(e) => setTagsInput(e.target.value)}
+          placeholder="태그 (쉼표로 구분, 예: release-notes, incident)"
+          className="w-full rounded-md border px-3 py-2 text-sm"
+        />
         <button type="submit" className="rounded-md bg-foreground text-background px-4 py-2">
           작성
         </button>
       </form>
 
-      {/* 삭제 버튼들 */}
-      {items.length > 0 && (
-        <div className="flex gap-2 p-4 border rounded-md bg-gray-50">
-          <button
-            onClick={toggleSelectAll}
-            className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
-          >
-            {selectedIds.length === items.length ? '전체 해제' : '전체 선택'}
-          </button>
-          <button
-            onClick={deleteSelected}
-            disabled={selectedIds.length === 0}
-            className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
-          >
-            선택 삭제 ({selectedIds.length})
-          </button>
+      <div className="flex gap-8">
+        {/* 태그 필터 */}
+        <aside className="w-48 shrink-0 space-y-2">
+          <h2 className="text-sm font-semibold">태그</h2>
+          {tagCounts.length === 0 && <p className="text-xs text-gray-500">아직 태그가 없습니다.</p>}
+          <ul className="space-y-1 text-sm">
+            {tagCounts.map(({ tag, count }) => (
+              <li key={tag}>
+                <button
+                  onClick={() => selectTag(tag)}
+                  className={`flex w-full justify-between rounded px-2 py-1 hover:bg-gray-100 ${filters.tag === tag ? 'font-semibold bg-gray-100' : ''}`}
+                >
+                  <span className="truncate">#{tag}</span>
+                  <span className="text-gray-500">{count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {filters.tag && (
+            <button onClick={() => selectTag(filters.tag)} className="text-xs underline">
+              태그 필터 해제
+            </button>
+          )}
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-8">
+        {/* 검색 */}
+        <form onSubmit={onSearch} className="flex gap-2">
+          <input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="제목/내용 검색"
+            className="flex-1 rounded-md border px-3 py-2"
+          />
+          <button type="submit" className="rounded-md border px-4 py-2 text-sm">검색</button>
+          {query && (
+            <button type="button" onClick={clearSearch} className="rounded-md border px-4 py-2 text-sm">
+              초기화
+            </button>
+          )}
+        </form>
+
+        {/* 정렬/필터 (검색 중에는 관련도순) */}
+        {query ? (
+          <div className="text-sm text-gray-500">&apos;{query}&apos; 검색 결과 (관련도순)</div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as Filters['sort'] })}
+              className="rounded-md border px-2 py-1"
+            >
+              <option value="recent">작성일</option>
+              <option value="views">조회수</option>
+              <option value="reactions">반응</option>
+            </select>
+            <select
+              value={filters.order}
+              onChange={(e) => updateFilters({ order: e.target.value as Filters['order'] })}
+              className="rounded-md border px-2 py-1"
+            >
+              <option value="desc">{filters.sort === 'recent' ? '최신순' : '많은순'}</option>
+              <option value="asc">{filters.sort === 'recent' ? '오래된순' : '적은순'}</option>
+            </select>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className="rounded-md border px-2 py-1"
+            />
+            <span>~</span>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className="rounded-md border px-2 py-1"
+            />
+            {meId && (
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={filters.mineOnly}
+                  onChange={(e) => updateFilters({ mineOnly: e.target.checked })}
+                />
+                내 글만
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* 삭제 버튼들 */}
+        {items.length > 0 && (
+          <div className="flex gap-2 p-4 border rounded-md bg-gray-50">
+            <button
+              onClick={toggleSelectAll}
+              className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
+            >
+              {selectedIds.length === items.length ? '전체 해제' : '전체 선택'}
+            </button>
+            <button
+              onClick={deleteSelected}
+              disabled={selectedIds.length === 0}
+              className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              선택 삭제 ({selectedIds.length})
+            </button>
+            <button
+              onClick={deleteAll}
+              className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+            >
+              전체 삭제
+            </button>
+          </div>
+        )}
+
+        <ul className="space-y-3">
+          {items.map((p) => (
+            <li key={p._id} className="border rounded-md p-4">
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(p._id)}
+                  onChange={() => toggleSelect(p._id)}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <Link href={`/posts/${p._id}`} className="font-semibold hover:underline">
+                    {p.titleHighlight ? <Highlighted parts={p.titleHighlight} /> : p.title}
+                  </Link>
+                  {p.snippet && (
+                    <div className="text-sm text-gray-700 mt-1">
+                      <Highlighted parts={p.snippet} />
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {p.authorEmail || '익명'} • {p.createdAt ? new Date(p.createdAt).toLocaleString() : ''}
+                    {p.commentCount !== undefined && <> • 댓글 {p.commentCount}</>}
+                    {p.viewCount !== undefined && <> • 조회 {p.viewCount}</>}
+                    {p.reactionCount !== undefined && <> • 반응 {p.reactionCount}</>}
+                  </div>
+                  <div className="mt-2">
+                    <TagChips tags={p.tags} onSelect={selectTag} active={filters.tag} />
+                  </div>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {nextCursor && (
           <button
-            onClick={deleteAll}
-            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+            onClick={() => load(nextCursor)}
+            disabled={loading}
+            className="w-full rounded-md border py-2 text-sm hover:bg-gray-100 disabled:opacity-50"
           >
-            전체 삭제
+            {loading ? '불러오는 중...' : '더 보기'}
           </button>
+        )}
         </div>
-      )}
-
-      <ul className="space-y-3">
-        {items.map((p) => (
-          <li key={p._id} className="border rounded-md p-4">
-            <div className="flex items-start gap-3">
-              <input
-                type="checkbox"
-                checked={selectedIds.includes(p._id)}
-                onChange={() => toggleSelect(p._id)}
-                className="mt-1"
-              />
-              <div className="flex-1">
-                <div className="font-semibold">{p.title}</div>
-                <div className="text-xs text-gray-500">
-                  {p.authorEmail || '익명'} • {p.createdAt ? new Date(p.createdAt).toLocaleString() : ''}
-                </div>
-              </div>
-            </div>
-          </li>
-        ))}
-      </ul>
+      </div>
     </main>
   );
 }
\ No newline at end of file
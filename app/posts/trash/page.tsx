@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+
+type TrashedPost = {
+  _id: string;
+  title: string;
+  createdAt: string;
+  deletedAt: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  async function load(cursor?: string | null) {
+    const params = new URLSearchParams({ limit: '20' });
+    if (cursor) params.set('cursor', cursor);
+    const res = await apiFetch(`/api/posts/trash?${params}`, { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setItems(prev => (cursor ? [...prev, ...data.items] : data.items));
+      setNextCursor(data.nextCursor || null);
+      setRetentionDays(data.retentionDays);
+    } else if (res.status === 401) {
+      location.href = `/login?next=${encodeURIComponent(location.pathname)}`;
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function restore(post: TrashedPost) {
+    const res = await apiFetch(`/api/posts/${post._id}/restore`, { method: 'POST' });
+    if (res.ok) {
+      setItems(prev => prev.filter(p => p._id !== post._id));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '복원 실패');
+    }
+  }
+
+  // ids가 없으면 휴지통 비우기
+  async function deleteForever(ids: string[] | undefined, message: string) {
+    if (!confirm(message)) return;
+
+    const res = await apiFetch('/api/posts/trash', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : { all: true }),
+    });
+    if (res.ok) {
+      setItems(prev => (ids ? prev.filter(p => !ids.includes(p._id)) : []));
+      if (!ids) setNextCursor(null);
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '삭제 실패');
+    }
+  }
+
+  // 보관 기간이 끝나 자동 삭제되기까지 남은 일수
+  function daysLeft(post: TrashedPost) {
+    if (retentionDays === null) return null;
+    const purgeAt = new Date(post.deletedAt).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-2xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">휴지통</h1>
+        <Link href="/posts" className="underline text-sm">게시판</Link>
+      </div>
+
+      {retentionDays !== null && (
+        <p className="text-sm text-gray-500">휴지통의 게시글은 {retentionDays}일이 지나면 자동으로 영구 삭제됩니다.</p>
+      )}
+
+      {items.length > 0 && (
+        <button
+          onClick={() => deleteForever(undefined, '휴지통을 비우시겠습니까? 이 작업은 되돌릴 수 없습니다.')}
+          className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+        >
+          휴지통 비우기
+        </button>
+      )}
+
+      <ul className="space-y-3">
+        {items.map((p) => (
+          <li key={p._id} className="border rounded-md p-4 flex items-start justify-between gap-3">
+            <div>
+              <div className="font-medium">{p.title}</div>
+              <div className="text-xs text-gray-500">
+                삭제 {new Date(p.deletedAt).toLocaleString()} • {daysLeft(p)}일 후 영구 삭제
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => restore(p)} className="px-3 py-1 text-sm border rounded hover:bg-gray-200">
+                복원
+              </button>
+              <button
+                onClick={() => deleteForever([p._id], `'${p.title}' 게시글을 영구 삭제하시겠습니까?`)}
+                className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+              >
+                영구 삭제
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {items.length === 0 && <p className="text-sm text-gray-500">휴지통이 비어 있습니다.</p>}
+
+      {nextCursor && (
+        <button onClick={() => load(nextCursor)} className="w-full rounded-md border py-2 text-sm hover:bg-gray-100">
+          더 보기
+        </button>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (password !== confirm) {
+      alert('비밀번호가 일치하지 않습니다.');
+      return;
+    }
+    const res = await fetch('/api/auth/reset-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    });
+    if (res.ok) {
+      alert('비밀번호가 변경되었습니다. 다시 로그인해주세요.');
+      location.href = '/login';
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '비밀번호 변경 실패');
+    }
+  }
+
+  if (!token) {
+    return (
+      <p className="text-sm text-center">
+        유효하지 않은 링크입니다. <Link href="/forgot-password" className="underline">다시 요청</Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor="password" className="block text-sm font-medium">새 비밀번호</label>
+        <input
+          id="password"
+          type="password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full rounded-md border px-3 py-2 outline-none focus:ring-2 focus:ring-foreground/40"
+          placeholder="••••••••"
+        />
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="confirm" className="block text-sm font-medium">새 비밀번호 확인</label>
+        <input
+          id="confirm"
+          type="password"
+          required
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          className="w-full rounded-md border px-3 py-2 outline-none focus:ring-2 focus:ring-foreground/40"
+          placeholder="••••••••"
+        />
+      </div>
+      <button
+        type="submit"
+        className="w-full rounded-md bg-foreground text-background py-2 font-medium hover:opacity-90 transition"
+      >
+        비밀번호 변경
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <div className="w-full max-w-sm space-y-6">
+        <h1 className="text-2xl font-bold text-center">비밀번호 재설정</h1>
+        <Suspense>
+          <ResetPasswordForm />
+        </Suspense>
+        <div className="text-center">
+          <Link href="/login" className="text-sm underline">로그인으로</Link>
+        </div>
+      </div>
+    </main>
+  );
+}
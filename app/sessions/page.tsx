@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+
+type Session = {
+  _id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+export default function SessionsPage() {
+  const [items, setItems] = useState<Session[]>([]);
+
+  async function load() {
+    const res = await apiFetch('/api/auth/sessions', { cache: 'no-store' });
+    if (res.ok) {
+      const data = await res.json();
+      setItems(data.items || []);
+    } else if (res.status === 401) {
+      location.href = `/login?next=${encodeURIComponent(location.pathname)}`;
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function revoke(body: { id: string } | { all: true }, message: string) {
+    if (!confirm(message)) return;
+
+    const res = await apiFetch('/api/auth/sessions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(data?.message || '세션 종료 실패');
+      return;
+    }
+
+    // 현재 기기 세션을 끊었으면 로그인 화면으로
+    if (!('id' in body) || items.find(item => item._id === body.id)?.current) {
+      location.href = `/login?next=${encodeURIComponent(location.pathname)}`;
+    } else {
+      load();
+    }
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-2xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">로그인 기기</h1>
+        <Link href="/posts" className="underline text-sm">게시판</Link>
+      </div>
+
+      <button
+        onClick={() => revoke({ all: true }, '모든 기기에서 로그아웃하시겠습니까?')}
+        className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+      >
+        모든 기기에서 로그아웃
+      </button>
+
+      <ul className="space-y-3">
+        {items.map((s) => (
+          <li key={s._id} className="border rounded-md p-4 flex items-start justify-between gap-3">
+            <div className="space-y-1">
+              <div className="text-sm font-medium">
+                {s.userAgent || '알 수 없는 기기'}
+                {s.current && <span className="ml-2 text-xs text-green-600">현재 기기</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {s.ip || '-'} • 로그인 {new Date(s.createdAt).toLocaleString()} • 최근 사용 {new Date(s.lastUsedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => revoke({ id: s._id }, '이 기기에서 로그아웃하시겠습니까?')}
+              className="px-3 py-1 text-sm border rounded hover:bg-gray-200"
+            >
+              로그아웃
+            </button>
+          </li>
+        ))}
+      </ul>
+    </main>
+  );
+}
@@ -20,7 +20,7 @@ export default function SignupPage() {
       body: JSON.stringify({ email, password }),
     });
     if (res.ok) {
-      alert('회원가입 성공. 로그인해주세요.');
+      alert('회원가입 성공. 인증 메일을 확인한 뒤 로그인해주세요.');
       location.href = '/login';
     } else {
       const data = await res.json().catch(() => ({}));
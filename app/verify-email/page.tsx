@@ -0,0 +1,45 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api-client';
+
+function VerifyEmailResult() {
+  const status = useSearchParams().get('status');
+
+  async function resend() {
+    const res = await apiFetch('/api/auth/verify/resend', { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    alert(data?.message || (res.ok ? '인증 메일을 다시 보냈습니다.' : '재발송 실패 (로그인 필요)'));
+  }
+
+  if (status === 'success') {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm">이메일 인증이 완료되었습니다.</p>
+        <Link href="/posts" className="underline text-sm">게시판으로</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <p className="text-sm">인증 링크가 만료되었거나 이미 사용되었습니다.</p>
+      <button onClick={resend} className="underline text-sm">인증 메일 재발송</button>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <div className="w-full max-w-sm space-y-6">
+        <h1 className="text-2xl font-bold text-center">이메일 인증</h1>
+        <Suspense>
+          <VerifyEmailResult />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
@@ -1,99 +1,263 @@
 // OpenTelemetry 자동 계측 설정 파일
-// HTTP 요청을 자동으로 추적하고 OTLP 엔드포인트로 전송
+// HTTP 요청을 자동으로 추적하고 OTEL_TRACES_EXPORTER로 지정한 곳(OTLP/콘솔/파일)으로 전송
+// 설정은 표준 OTEL_* 환경변수를 따름 (env-example 참고), OTEL_SDK_DISABLED=true면 전부 끔
 
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
-import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
-import { resourceFromAttributes } from '@opentelemetry/resources';
-import { SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import {
+  detectResources,
+  envDetector,
+  hostDetector,
+  osDetector,
+  processDetector,
+  resourceFromAttributes,
+  Resource,
+} from '@opentelemetry/resources';
+import {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ParentBasedSampler,
+  Sampler,
+  SpanExporter,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
 import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
 import { registerInstrumentations } from '@opentelemetry/instrumentation';
-import { TraceIdRatioBasedSampler } from '@opentelemetry/sdk-trace-base';
+import { metrics } from '@opentelemetry/api';
+import { MeterProvider, MetricReader, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { PrometheusExporter } from '@opentelemetry/exporter-prometheus';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { setPrometheusExporter } from '@/lib/metrics';
+import { FileSpanExporter } from '@/lib/file-span-exporter';
+import { onShutdown } from '@/lib/shutdown';
 
-// ---- OTLP Trace Exporter 설정 ----
+const TELEMETRY_DISABLED = process.env.OTEL_SDK_DISABLED === 'true';
+
+// 쉼표로 구분된 환경변수 값 목록 (비어 있으면 기본값)
+function listFromEnv(name: string, fallback: string[]) {
+  const values = (process.env[name] || '').split(',').map((value) => value.trim()).filter(Boolean);
+  return values.length ? values : fallback;
+}
+
+/**
+ * 신호별 OTLP 엔드포인트
+ * OTEL_EXPORTER_OTLP_<SIGNAL>_ENDPOINT가 있으면 그대로, 없으면 OTEL_EXPORTER_OTLP_ENDPOINT 뒤에 /v1/<signal>
+ * 예전 설정처럼 OTEL_EXPORTER_OTLP_ENDPOINT에 /v1/traces까지 적어 둔 경우도 처리
+ */
+function otlpUrl(signal: 'traces' | 'metrics') {
+  const specific = process.env[`OTEL_EXPORTER_OTLP_${signal.toUpperCase()}_ENDPOINT`];
+  if (specific) return specific;
+  const base = (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318').replace(/\/(v1\/traces)?\/?$/, '');
+  return `${base}/v1/${signal}`;
+}
+
+// ---- 서비스 리소스 정보 (trace/metric 공통) ----
+/**
+ * 우선순위: OTEL_SERVICE_VERSION > OTEL_SERVICE_NAME/OTEL_RESOURCE_ATTRIBUTES > PROJECT_NAME/기본값
+ * 호스트/OS/프로세스 정보도 함께 기록
+ */
+function createResource(): Resource {
+  const defaults = resourceFromAttributes({
+    [ATTR_SERVICE_NAME]: process.env.PROJECT_NAME || 'gitlab-demo-app',
+  });
+  const detected = detectResources({ detectors: [hostDetector, osDetector, processDetector, envDetector] });
+  const version = process.env.OTEL_SERVICE_VERSION;
+  return defaults
+    .merge(detected)
+    .merge(resourceFromAttributes(version ? { [ATTR_SERVICE_VERSION]: version } : {}));
+}
+
+// ---- 샘플링 전략 ----
 /**
- * OTLP HTTP 프로토콜을 사용하여 trace 데이터를 외부 수집기로 전송하는 exporter
- * Jaeger, Zipkin, Grafana Tempo 등과 호환되는 표준 프로토콜
+ * OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG
+ * 기본값은 parentbased_traceidratio 0.5: 상위 서비스가 샘플링한 요청은 따르고, 새 trace는 50%만 추적
  */
-const exporter = new OTLPTraceExporter({
-  // OTLP 엔드포인트 URL (환경변수 또는 기본값)
-  url: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318/v1/traces',
-  // 추가 HTTP 헤더 (인증 등)
-  headers: {},
-  // 동시 전송 제한 (성능 최적화)
-  concurrencyLimit: 10,
-});
+function createSampler(): { sampler: Sampler; description: string } {
+  const name = process.env.OTEL_TRACES_SAMPLER || 'parentbased_traceidratio';
+  const arg = Number(process.env.OTEL_TRACES_SAMPLER_ARG);
+  const ratio = Number.isFinite(arg) && arg >= 0 && arg <= 1 ? arg : 0.5;
+
+  switch (name) {
+    case 'always_on':
+      return { sampler: new AlwaysOnSampler(), description: 'always_on' };
+    case 'always_off':
+      return { sampler: new AlwaysOffSampler(), description: 'always_off' };
+    case 'traceidratio':
+      return { sampler: new TraceIdRatioBasedSampler(ratio), description: `traceidratio ${ratio * 100}%` };
+    case 'parentbased_always_on':
+      return { sampler: new ParentBasedSampler({ root: new AlwaysOnSampler() }), description: 'parentbased_always_on' };
+    case 'parentbased_always_off':
+      return { sampler: new ParentBasedSampler({ root: new AlwaysOffSampler() }), description: 'parentbased_always_off' };
+    default:
+      if (name !== 'parentbased_traceidratio') {
+        console.warn(`Unknown OTEL_TRACES_SAMPLER "${name}", falling back to parentbased_traceidratio`);
+      }
+      return {
+        sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(ratio) }),
+        description: `parentbased_traceidratio ${ratio * 100}%`,
+      };
+  }
+}
+
+// ---- Span Exporter 설정 ----
+/**
+ * OTEL_TRACES_EXPORTER (쉼표 구분, 기본 otlp)
+ * - otlp: OTLP HTTP로 Jaeger, Grafana Tempo 등 수집기에 전송 (헤더는 OTEL_EXPORTER_OTLP_HEADERS)
+ * - console: 표준 출력 (수집기 없이 개발할 때)
+ * - file: OTEL_TRACES_FILE(기본 logs/traces.jsonl)에 JSON 한 줄씩
+ * - none: 전송하지 않음
+ */
+function createSpanExporters(names: string[]): SpanExporter[] {
+  const exporters: SpanExporter[] = [];
+  for (const name of names) {
+    if (name === 'otlp') {
+      // 동시 전송 제한 (성능 최적화)
+      exporters.push(new OTLPTraceExporter({ url: otlpUrl('traces'), concurrencyLimit: 10 }));
+    } else if (name === 'console') {
+      exporters.push(new ConsoleSpanExporter());
+    } else if (name === 'file') {
+      exporters.push(new FileSpanExporter());
+    } else if (name !== 'none') {
+      console.warn(`Unknown OTEL_TRACES_EXPORTER "${name}" ignored`);
+    }
+  }
+  return exporters;
+}
 
 // ---- Node.js Tracer Provider 설정 ----
 /**
  * Node.js 환경에서 trace를 생성하고 관리하는 핵심 컴포넌트
- * 서비스 정보, span 처리기, 샘플링 전략을 설정
+ * BatchSpanProcessor가 span을 모아 비동기로 전송 (요청 처리를 막지 않음)
+ * 큐/배치 설정은 OTEL_BSP_SCHEDULE_DELAY, OTEL_BSP_EXPORT_TIMEOUT, OTEL_BSP_MAX_QUEUE_SIZE,
+ * OTEL_BSP_MAX_EXPORT_BATCH_SIZE를 BatchSpanProcessor가 직접 읽음
  */
-const provider = new NodeTracerProvider({
-  // 서비스 리소스 정보 설정
-  resource: resourceFromAttributes({
-    [ATTR_SERVICE_NAME]: process.env.PROJECT_NAME || "gitlab-demo-app",
-  }),
-  // Span 처리기 설정 (SimpleSpanProcessor: 동기식 처리)
-  spanProcessors: [new SimpleSpanProcessor(exporter)],
-  // 샘플링 전략: 10%의 요청만 추적 (성능과 관찰성의 균형)
-  sampler: new TraceIdRatioBasedSampler(0.5),
-});
+function setupTracing(resource: Resource, exporterNames: string[], sampler: Sampler) {
+  const provider = new NodeTracerProvider({
+    resource,
+    spanProcessors: createSpanExporters(exporterNames).map((exporter) => new BatchSpanProcessor(exporter)),
+    sampler,
+  });
+  // NodeTracerProvider를 전역적으로 등록하여 API가 사용할 수 있도록 설정
+  provider.register();
+  return provider;
+}
 
-// ---- OpenTelemetry 초기화 ----
-// NodeTracerProvider를 전역적으로 등록하여 API가 사용할 수 있도록 설정
-provider.register();
+// ---- Meter Provider 설정 ----
+/**
+ * 요청 처리 시간, 작업 결과, 로그인/게시글 카운터 등 메트릭 수집 (lib/metrics.ts)
+ * - Prometheus: /api/metrics 에서 수집 시점에 읽어 감 (OTEL_METRICS_PROMETHEUS=false면 끔)
+ * - OTLP: OTEL_METRICS_EXPORTER=otlp 이면 OTEL_METRIC_EXPORT_INTERVAL(ms)마다 수집기로 전송
+ */
+function setupMetrics(resource: Resource) {
+  const metricReaders: MetricReader[] = [];
+
+  if (process.env.OTEL_METRICS_PROMETHEUS !== 'false') {
+    // 별도 포트(9464)를 열지 않고 Next.js 라우트에서 응답
+    const prometheusExporter = new PrometheusExporter({ preventServerStart: true });
+    setPrometheusExporter(prometheusExporter);
+    metricReaders.push(prometheusExporter);
+  }
+
+  if (listFromEnv('OTEL_METRICS_EXPORTER', []).includes('otlp')) {
+    metricReaders.push(
+      new PeriodicExportingMetricReader({
+        exporter: new OTLPMetricExporter({ url: otlpUrl('metrics') }),
+        exportIntervalMillis: Number(process.env.OTEL_METRIC_EXPORT_INTERVAL) || 60000,
+      })
+    );
+  }
+
+  // 전역 등록 후 HTTP 자동 계측도 요청 메트릭(http.server.duration)을 기록
+  const meterProvider = new MeterProvider({ resource, readers: metricReaders });
+  metrics.setGlobalMeterProvider(meterProvider);
+  return meterProvider;
+}
 
 // ---- HTTP 자동 계측 설정 ----
 /**
  * HTTP 요청/응답을 자동으로 추적하는 계측기 등록
  * 수동으로 span을 생성하지 않아도 HTTP 요청이 자동으로 추적됨
  */
-registerInstrumentations({
-  instrumentations: [
-    new HttpInstrumentation({
-      /**
-       * 무시할 HTTP 요청을 결정하는 훅
-       * 정적 파일이나 Next.js 내부 요청은 추적하지 않음 (성능 최적화)
-       * @param req HTTP 요청 객체
-       * @returns true면 추적하지 않음, false면 추적함
-       */
-      ignoreIncomingRequestHook: (req) => {
-        const url = req.url || '';
-        return (
-          // Next.js 내부 요청 (빌드 파일, 개발 서버 등)
-          url.startsWith('/_next/') ||
-          // 정적 파일 요청
-          url.startsWith('/static/') ||
-          // 이미지 파일들
-          url.endsWith('.png') ||
-          url.endsWith('.jpg') ||
-          url.endsWith('.jpeg') ||
-          url.endsWith('.ico')
-        );
-      },
-      
-      /**
-       * HTTP 요청 span을 커스터마이징하는 훅
-       * span 이름과 속성을 설정하여 더 유용한 정보 제공
-       * @param span 생성된 HTTP span
-       * @param request HTTP 요청 객체
-       */
-      requestHook: (span, request) => {
-        const method = request.method || 'UNKNOWN';
-        const url = request.url || '';
-        
-        // span 이름을 "METHOD URL" 형식으로 설정 (가독성 향상)
-        span.updateName(`${method} ${url}`);
-        
-        // HTTP 관련 표준 속성 설정 (OpenTelemetry 시맨틱 컨벤션)
-        span.setAttribute('http.method', method);           // HTTP 메서드
-        span.setAttribute('http.url', url);                 // 전체 URL
-        span.setAttribute('http.route', url.split('?')[0]); // 쿼리 파라미터 제외한 경로
-      }
-    }),
-  ],
-});
+function setupHttpInstrumentation() {
+  registerInstrumentations({
+    instrumentations: [
+      new HttpInstrumentation({
+        /**
+         * 무시할 HTTP 요청을 결정하는 훅
+         * 정적 파일이나 Next.js 내부 요청은 추적하지 않음 (성능 최적화)
+         * @param req HTTP 요청 객체
+         * @returns true면 추적하지 않음, false면 추적함
+         */
+        ignoreIncomingRequestHook: (req) => {
+          const url = req.url || '';
+          return (
+            // Next.js 내부 요청 (빌드 파일, 개발 서버 등)
+            url.startsWith('/_next/') ||
+            // 정적 파일 요청
+            url.startsWith('/static/') ||
+            // 이미지 파일들
+            url.endsWith('.png') ||
+            url.endsWith('.jpg') ||
+            url.endsWith('.jpeg') ||
+            url.endsWith('.ico')
+          );
+        },
+
+        /**
+         * HTTP 요청 span을 커스터마이징하는 훅
+         * span 이름과 속성을 설정하여 더 유용한 정보 제공
+         * @param span 생성된 HTTP span
+         * @param request HTTP 요청 객체
+         */
+        requestHook: (span, request) => {
+          const method = request.method || 'UNKNOWN';
+          const url = request.url || '';
+
+          // span 이름을 "METHOD URL" 형식으로 설정 (가독성 향상)
+          span.updateName(`${method} ${url}`);
 
-// ---- 초기화 완료 로그 ----
-console.log(`OpenTelemetry initialized with 10% sampling for project: ${process.env.PROJECT_NAME || "gitlab-demo-app"}`);
+          // HTTP 관련 표준 속성 설정 (OpenTelemetry 시맨틱 컨벤션)
+          span.setAttribute('http.method', method);           // HTTP 메서드
+          span.setAttribute('http.url', url);                 // 전체 URL
+          span.setAttribute('http.route', url.split('?')[0]); // 쿼리 파라미터 제외한 경로
+        }
+      }),
+    ],
+  });
+}
+
+// ---- OpenTelemetry 초기화 ----
+if (TELEMETRY_DISABLED) {
+  console.log('OpenTelemetry disabled (OTEL_SDK_DISABLED=true)');
+} else {
+  const resource = createResource();
+  const exporterNames = listFromEnv('OTEL_TRACES_EXPORTER', ['otlp']);
+  const { sampler, description } = createSampler();
+
+  const tracerProvider = setupTracing(resource, exporterNames, sampler);
+  const meterProvider = setupMetrics(resource);
+  setupHttpInstrumentation();
+  // 종료 시 BatchSpanProcessor 큐와 메트릭을 마저 전송
+  onShutdown('otel.traces', () => tracerProvider.shutdown());
+  onShutdown('otel.metrics', () => meterProvider.shutdown());
+
+  // ---- 초기화 완료 로그 ----
+  console.log(
+    `OpenTelemetry initialized for ${resource.attributes[ATTR_SERVICE_NAME]}: sampler=${description}, exporters=${exporterNames.join(',')}`
+  );
+}
+
+// ---- 백그라운드 작업 ----
+/**
+ * Next.js가 서버 시작 시 한 번 호출하는 훅
+ * 보관 기간이 지난 휴지통 게시글을 주기적으로 영구 삭제
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startTrashPurge } = await import('@/lib/trash');
+    startTrashPurge();
+  }
+}
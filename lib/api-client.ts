@@ -0,0 +1,22 @@
+// 브라우저 전용 fetch 래퍼
+// access 토큰이 만료되어 401이 오면 refresh 토큰으로 한 번 갱신한 뒤 재시도
+
+let refreshing: Promise<boolean> | null = null;
+
+function refreshSession() {
+  refreshing ??= fetch('/api/auth/refresh', { method: 'POST' })
+    .then((res) => res.ok)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+export async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(input, init);
+  if (res.status !== 401) return res;
+
+  const refreshed = await refreshSession();
+  return refreshed ? fetch(input, init) : res;
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+
+// 클라이언트가 분기할 수 있는 고정 에러 코드
+export const ErrorCode = {
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+  FORBIDDEN: 'FORBIDDEN',
+  CSRF_REJECTED: 'CSRF_REJECTED',
+  EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
+  ACCOUNT_DISABLED: 'ACCOUNT_DISABLED',
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  PRECONDITION_FAILED: 'PRECONDITION_FAILED',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+  LENGTH_REQUIRED: 'LENGTH_REQUIRED',
+  UNSUPPORTED_MEDIA_TYPE: 'UNSUPPORTED_MEDIA_TYPE',
+  INVALID_TOKEN: 'INVALID_TOKEN',
+  RATE_LIMITED: 'RATE_LIMITED',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+/**
+ * 모든 API 라우트가 던지는 단일 에러 타입
+ * 응답 본문: { code, message, details? }
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown,
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  static validation(message: string, details?: unknown) {
+    return new ApiError(400, ErrorCode.VALIDATION_FAILED, message, details);
+  }
+
+  static unauthorized(message = '로그인이 필요합니다.') {
+    return new ApiError(401, ErrorCode.UNAUTHORIZED, message);
+  }
+
+  static forbidden(message = '권한이 없습니다.') {
+    return new ApiError(403, ErrorCode.FORBIDDEN, message);
+  }
+
+  static notFound(message: string) {
+    return new ApiError(404, ErrorCode.NOT_FOUND, message);
+  }
+
+  static conflict(message: string) {
+    return new ApiError(409, ErrorCode.CONFLICT, message);
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * 에러를 공통 JSON 응답으로 변환
+ * 예상하지 못한 에러는 내부 메시지를 노출하지 않음
+ */
+export function errorResponse(error: unknown) {
+  if (isApiError(error)) {
+    const body = { code: error.code, message: error.message, ...(error.details !== undefined && { details: error.details }) };
+    return NextResponse.json(body, { status: error.status, headers: error.headers });
+  }
+  return NextResponse.json({ code: ErrorCode.INTERNAL_ERROR, message: '서버 오류' }, { status: 500 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { trace } from '@opentelemetry/api';
+import { withLogging, formatTraceparent, ManualLogger } from '@/lib/logger-tracing';
+import { errorResponse } from '@/lib/api-error';
+import { recordHttpRequest } from '@/lib/metrics';
+
+// 클라이언트가 로그/trace를 찾아볼 수 있도록 현재 span의 traceparent를 응답에 실어 보냄
+function withTraceparent(res: NextResponse | Response) {
+  const span = trace.getActiveSpan();
+  if (!span) return res;
+  try {
+    res.headers.set('traceparent', formatTraceparent(span.spanContext()));
+  } catch {
+    // Response.redirect 등 헤더를 바꿀 수 없는 응답은 그대로 반환
+  }
+  return res;
+}
+
+/**
+ * API 라우트 공통 래퍼
+ * withLogging으로 시작/완료/실패를 기록하고, 던져진 에러는 공통 에러 응답으로 변환
+ */
+export async function apiRoute(
+  operation: string,
+  fn: (logger: ManualLogger) => Promise<NextResponse | Response>
+): Promise<NextResponse | Response> {
+  const startedAt = performance.now();
+  let res: NextResponse | Response;
+  try {
+    res = await withLogging(operation, fn);
+  } catch (error) {
+    res = errorResponse(error);
+  }
+  recordHttpRequest(operation, res.status, performance.now() - startedAt);
+  return withTraceparent(res);
+}
@@ -0,0 +1,169 @@
+import { ObjectId } from 'mongodb';
+import sharp from 'sharp';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { AttachmentDoc, getRepositories } from '@/lib/repositories';
+import { getStorageDriver } from '@/lib/storage';
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 파일 하나당 최대 크기
+export const ATTACHMENT_MAX_BYTES = numberFromEnv('ATTACHMENT_MAX_MB', 10) * 1024 * 1024;
+
+// 한 번에 올릴 수 있는 파일 수
+export const ATTACHMENT_MAX_FILES = 10;
+
+// SVG는 스크립트를 포함할 수 있으므로 허용하지 않음
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+];
+
+export const ATTACHMENT_ALLOWED_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map((type) => type.trim()).filter(Boolean)
+  : DEFAULT_ALLOWED_TYPES;
+
+// 이미지로 올린 파일의 실제 형식 (sharp 기준)
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const THUMBNAIL_SIZE = 320;
+
+export type PublicAttachment = Omit<AttachmentDoc, 'storageKey' | 'thumbnailKey'> & { hasThumbnail: boolean };
+
+// 저장소 위치는 응답에 포함하지 않음
+export function toPublicAttachment(attachment: AttachmentDoc): PublicAttachment {
+  const { _id, postId, filename, contentType, size, uploaderId, createdAt, thumbnailKey } = attachment;
+  return { _id, postId, filename, contentType, size, uploaderId, createdAt, hasThumbnail: Boolean(thumbnailKey) };
+}
+
+// 경로 구분자/제어 문자 제거
+function sanitizeFilename(name: string) {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\x00-\x1f\x7f]/g, '').trim().slice(0, 200);
+  return cleaned || 'file';
+}
+
+/**
+ * 올린 파일 검사 (크기/형식)
+ * 이미지는 선언된 형식과 실제 내용이 일치하는지도 확인
+ */
+async function inspect(file: File, data: Buffer) {
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    throw new ApiError(413, ErrorCode.PAYLOAD_TOO_LARGE, '파일이 너무 큽니다.', {
+      filename: file.name,
+      maxBytes: ATTACHMENT_MAX_BYTES,
+    });
+  }
+
+  const contentType = file.type.split(';')[0].trim().toLowerCase();
+  if (!ATTACHMENT_ALLOWED_TYPES.includes(contentType)) {
+    throw new ApiError(415, ErrorCode.UNSUPPORTED_MEDIA_TYPE, '허용되지 않는 파일 형식입니다.', {
+      filename: file.name,
+      contentType: contentType || null,
+      allowed: ATTACHMENT_ALLOWED_TYPES,
+    });
+  }
+
+  const format = IMAGE_FORMATS[contentType];
+  if (format) {
+    const metadata = await sharp(data).metadata().catch(() => null);
+    if (metadata?.format !== format) {
+      throw new ApiError(415, ErrorCode.UNSUPPORTED_MEDIA_TYPE, '이미지 파일이 올바르지 않습니다.', {
+        filename: file.name,
+        contentType,
+      });
+    }
+  }
+
+  return { contentType, isImage: Boolean(format) };
+}
+
+/**
+ * 검사 후 저장소에 파일(이미지는 썸네일 포함)을 쓰고 메타데이터 저장
+ */
+export async function saveAttachment(postId: ObjectId, file: File, uploaderId: string) {
+  const data = Buffer.from(await file.arrayBuffer());
+  const { contentType, isImage } = await inspect(file, data);
+
+  const storage = getStorageDriver();
+  const _id = new ObjectId();
+  const storageKey = `${postId}/${_id}`;
+  const thumbnailKey = isImage ? `${postId}/${_id}.thumb.webp` : undefined;
+
+  await storage.put(storageKey, data, contentType);
+  try {
+    if (thumbnailKey) {
+      const thumbnail = await sharp(data)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+      await storage.put(thumbnailKey, thumbnail, 'image/webp');
+    }
+
+    return await getRepositories().attachments.create({
+      _id,
+      postId,
+      filename: sanitizeFilename(file.name),
+      contentType,
+      size: data.length,
+      storageKey,
+      thumbnailKey,
+      uploaderId,
+    });
+  } catch (error) {
+    // 메타데이터 없이 남는 파일 정리
+    await removeFiles([{ storageKey, thumbnailKey }]);
+    throw error;
+  }
+}
+
+async function removeFiles(attachments: Pick<AttachmentDoc, 'storageKey' | 'thumbnailKey'>[]) {
+  const storage = getStorageDriver();
+  await Promise.all(
+    attachments.flatMap(({ storageKey, thumbnailKey }) =>
+      [storageKey, thumbnailKey].filter((key): key is string => Boolean(key)).map((key) => storage.delete(key))
+    )
+  );
+}
+
+/**
+ * 첨부 파일 하나 삭제 (메타데이터 → 파일 순)
+ */
+export async function deleteAttachment(attachment: AttachmentDoc) {
+  if (await getRepositories().attachments.delete(attachment._id)) {
+    await removeFiles([attachment]);
+  }
+}
+
+/**
+ * 영구 삭제된 게시글의 첨부 파일 정리
+ */
+export async function deleteAttachmentsForPosts(postIds: ObjectId[]) {
+  const removed = await getRepositories().attachments.deleteForPosts(postIds);
+  await removeFiles(removed);
+  return removed.length;
+}
+
+/**
+ * 다운로드 응답용 Content-Disposition (비ASCII 파일명은 RFC 5987 형식으로)
+ */
+export function contentDisposition(attachment: Pick<AttachmentDoc, 'filename' | 'contentType'>, inline: boolean) {
+  const fallback = attachment.filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const type = inline ? 'inline' : 'attachment';
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`;
+}
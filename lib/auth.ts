@@ -1,19 +1,47 @@
 import jwt from 'jsonwebtoken';
 import { NextRequest, NextResponse } from 'next/server';
+import { findActiveSession, REFRESH_TOKEN_TTL_SECONDS } from '@/lib/sessions';
+import { can, isRole, Action, Resource, Role } from '@/lib/policy';
+import { ApiError } from '@/lib/api-error';
+import { bindLogContext } from '@/lib/log-context';
+import { z, nonEmptyString } from '@/lib/validation';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 if (!JWT_SECRET) throw new Error('JWT_SECRET 환경변수가 필요합니다.');
 
-export function signToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' });
+// access 토큰은 짧게 유지하고 refresh 토큰으로 갱신
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 15;
+
+export type AuthUser = { id: string; email: string; role: Role; jti: string };
+
+export type TokenPayload = { id: string; email: string; role: Role };
+
+// 로그인/회원가입 본문
+export const credentialsInput = z.object({
+  email: nonEmptyString('이메일/비밀번호가 필요합니다.'),
+  password: z.string({ required_error: '이메일/비밀번호가 필요합니다.' }).min(1, '이메일/비밀번호가 필요합니다.'),
+});
+
+export function signToken(payload: TokenPayload, jti: string) {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS, jwtid: jti });
 }
 
-export function verifyToken(token: string) {
+/**
+ * 서명/만료 검증 후 jti에 해당하는 세션이 아직 유효한지 확인
+ */
+export async function verifyToken(token: string): Promise<AuthUser | null> {
+  let payload: Partial<TokenPayload> & { id: string; email: string; jti?: string };
   try {
-    return jwt.verify(token, JWT_SECRET) as { id: string; email: string };
+    payload = jwt.verify(token, JWT_SECRET) as typeof payload;
   } catch {
     return null;
   }
+  if (!payload.jti) return null;
+
+  const session = await findActiveSession(payload.jti);
+  if (!session || session.userId !== payload.id) return null;
+
+  return { id: payload.id, email: payload.email, role: isRole(payload.role) ? payload.role : 'user', jti: payload.jti };
 }
 
 export function setAuthCookie(res: NextResponse, token: string) {
@@ -22,16 +50,74 @@ export function setAuthCookie(res: NextResponse, token: string) {
     sameSite: 'lax',
     secure: process.env.NODE_ENV === 'production',
     path: '/',
-    maxAge: 60 * 60 * 24 * 7,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+// refresh 토큰은 인증 API에만 전송되도록 path 제한
+export function setRefreshCookie(res: NextResponse, refreshToken: string) {
+  res.cookies.set('refresh_token', refreshToken, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/auth',
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
   });
 }
 
 export function clearAuthCookie(res: NextResponse) {
   res.cookies.set('token', '', { httpOnly: true, path: '/', maxAge: 0 });
+  res.cookies.set('refresh_token', '', { httpOnly: true, path: '/api/auth', maxAge: 0 });
 }
 
-export function getUserFromRequest(req: NextRequest) {
+export async function getUserFromRequest(req: NextRequest) {
   const token = req.cookies.get('token')?.value;
   if (!token) return null;
-  return verifyToken(token);
-}
\ No newline at end of file
+  const user = await verifyToken(token);
+  // 이후 이 요청에서 남기는 로그에 userId를 붙임
+  if (user) bindLogContext({ userId: user.id });
+  return user;
+}
+
+/**
+ * 클라이언트 IP (TRUST_PROXY_HOPS개의 신뢰하는 프록시 뒤에서만 전달 헤더를 사용)
+ * 프록시는 받은 주소를 x-forwarded-for 끝에 붙이므로 뒤에서 hops번째 값이 프록시가 직접 본 클라이언트 주소
+ * 설정이 없으면 클라이언트가 헤더를 위조할 수 있으므로 알 수 없음으로 처리
+ */
+function clientIp(req: NextRequest) {
+  const hops = Number(process.env.TRUST_PROXY_HOPS);
+  if (!Number.isInteger(hops) || hops <= 0) return undefined;
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(forwarded.length - hops, 0)];
+  return req.headers.get('x-real-ip') || undefined;
+}
+
+/**
+ * 세션 목록에 표시할 접속 기기 정보
+ */
+export function getClientMeta(req: NextRequest) {
+  return {
+    userAgent: req.headers.get('user-agent') || undefined,
+    ip: clientIp(req),
+  };
+}
+
+/**
+ * 로그인 사용자 반환, 없으면 401
+ */
+export async function requireUser(req: NextRequest) {
+  const user = await getUserFromRequest(req);
+  if (!user) throw ApiError.unauthorized();
+  return user;
+}
+
+/**
+ * can() 정책을 통과하지 못하면 403
+ */
+export function authorize(user: AuthUser, action: Action, resource?: Resource) {
+  if (!can(user, action, resource)) throw ApiError.forbidden();
+}
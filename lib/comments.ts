@@ -0,0 +1,23 @@
+import { CommentDoc } from '@/lib/repositories';
+import { z, nonEmptyString } from '@/lib/validation';
+
+export type { CommentDoc };
+
+// 댓글 작성/수정 본문
+export const commentInput = z.object({ content: nonEmptyString('내용이 필요합니다.') });
+
+export type CommentThread = CommentDoc & { replies: CommentDoc[] };
+
+/**
+ * 평탄한 댓글 목록을 최상위 댓글 + replies 구조로 묶음
+ */
+export function toThreads(list: CommentDoc[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of list) {
+    if (!comment.parentId) threads.set(String(comment._id), { ...comment, replies: [] });
+  }
+  for (const comment of list) {
+    if (comment.parentId) threads.get(String(comment.parentId))?.replies.push(comment);
+  }
+  return [...threads.values()];
+}
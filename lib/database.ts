@@ -1,23 +1,35 @@
-import { MongoClient } from 'mongodb';
+import { Db, MongoClient, MongoClientOptions } from 'mongodb';
+import { instrumentMongoClient } from '@/lib/mongo-tracing';
 
-const uri = process.env.MONGODB_URI!;
-const options = {};
-if (!uri) throw new Error('MONGODB_URI 환경변수가 설정되지 않았습니다.');
+// 모든 명령을 span으로 기록하기 위해 명령 모니터링 이벤트 사용
+const options: MongoClientOptions = { monitorCommands: true };
 
-let client = new MongoClient(uri, options);
-let clientPromise: Promise<MongoClient>;
+let clientPromise: Promise<MongoClient> | null = null;
 
 declare global {
 	var _mongoClientPromise: Promise<MongoClient> | undefined;
 }
 
-if (process.env.NODE_ENV === 'development') {
-	if (!global._mongoClientPromise) {
-		global._mongoClientPromise = client.connect();
+/**
+ * MongoDB 연결 (처음 호출할 때 연결)
+ * import 시점에는 연결하지 않으므로 DATA_STORE=memory 에서는 MONGODB_URI 없이 동작
+ */
+export function getMongoClient(): Promise<MongoClient> {
+	if (clientPromise) return clientPromise;
+
+	const uri = process.env.MONGODB_URI;
+	if (!uri) return Promise.reject(new Error('MONGODB_URI 환경변수가 설정되지 않았습니다.'));
+
+	// 개발 서버 재로딩 시 연결이 늘어나지 않도록 전역에 보관
+	if (process.env.NODE_ENV === 'development') {
+		global._mongoClientPromise ??= instrumentMongoClient(new MongoClient(uri, options)).connect();
+		clientPromise = global._mongoClientPromise;
+	} else {
+		clientPromise = instrumentMongoClient(new MongoClient(uri, options)).connect();
 	}
-	clientPromise = global._mongoClientPromise;
-} else {
-	clientPromise = client.connect();
+	return clientPromise;
 }
 
-export default clientPromise;
+export async function getDatabase(): Promise<Db> {
+	return (await getMongoClient()).db(process.env.MONGODB_DB || 'app');
+}
@@ -0,0 +1,27 @@
+import { issueToken } from '@/lib/one-time-tokens';
+import { getMailTransport, appUrl } from '@/lib/mail';
+import { getRepositories } from '@/lib/repositories';
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 이메일 인증 링크 발송
+ */
+export async function sendVerificationEmail(user: { id: string; email: string }) {
+  const token = await issueToken(user.id, 'email_verification', VERIFICATION_TOKEN_TTL_MS);
+  const link = appUrl(`/api/auth/verify?token=${encodeURIComponent(token)}`);
+  await getMailTransport().send({
+    to: user.email,
+    subject: '이메일 인증 안내',
+    text: `아래 링크를 눌러 이메일 인증을 완료하세요. 링크는 24시간 동안 유효합니다.\n\n${link}`,
+  });
+}
+
+/**
+ * 인증 여부 확인
+ * 이 기능 도입 전에 가입한 계정(emailVerified 필드 없음)은 인증된 것으로 간주
+ */
+export async function isEmailVerified(userId: string) {
+  const user = await getRepositories().users.findById(userId);
+  return !!user && user.emailVerified !== false;
+}
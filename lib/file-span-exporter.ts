@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * span을 한 줄에 하나씩 JSON으로 파일에 기록하는 exporter
+ * 수집기 없이 로컬에서 trace를 확인할 때 사용 (OTEL_TRACES_EXPORTER=file)
+ */
+export class FileSpanExporter implements SpanExporter {
+  private file: string;
+  // 배치 간 쓰기 순서를 유지하기 위해 직전 쓰기에 이어 붙임
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(file = process.env.OTEL_TRACES_FILE || path.join(process.cwd(), 'logs', 'traces.jsonl')) {
+    this.file = path.resolve(file);
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    const lines = spans.map((span) => JSON.stringify(toJson(span))).join('\n') + '\n';
+    this.pending = this.pending
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.appendFile(this.file, lines);
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      })
+      .catch((error) => resultCallback({ code: ExportResultCode.FAILED, error }));
+  }
+
+  async forceFlush() {
+    await this.pending;
+  }
+
+  async shutdown() {
+    await this.pending;
+  }
+}
+
+function toJson(span: ReadableSpan) {
+  const context = span.spanContext();
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    kind: span.kind,
+    timestamp: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map((event) => ({
+      name: event.name,
+      timestamp: new Date(hrTimeToMilliseconds(event.time)).toISOString(),
+      attributes: event.attributes,
+    })),
+    service: span.resource.attributes['service.name'],
+  };
+}
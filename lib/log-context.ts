@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// 요청 단위로 모든 로그에 붙일 필드 (route, userId 등)
+// logger 의존성 없이 auth/middleware 쪽에서도 가져다 쓸 수 있도록 분리
+const logContext = new AsyncLocalStorage<Record<string, unknown>>();
+
+/**
+ * 현재 로그 컨텍스트를 이어받고 bindings를 더한 새 컨텍스트에서 fn 실행
+ */
+export function runWithLogContext<T>(bindings: Record<string, unknown>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...bindings }, fn);
+}
+
+/**
+ * 현재 요청의 로그 컨텍스트에 필드 추가 (예: 인증 후 userId)
+ * runWithLogContext 밖에서 호출하면 무시
+ */
+export function bindLogContext(bindings: Record<string, unknown>) {
+  const store = logContext.getStore();
+  if (store) Object.assign(store, bindings);
+}
+
+export function getLogContext() {
+  return logContext.getStore();
+}
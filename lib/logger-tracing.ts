@@ -1,9 +1,14 @@
 // logger-tracing.ts
 import pino from 'pino';
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
-import { trace, Span } from '@opentelemetry/api';
+import { trace, Span, SpanContext } from '@opentelemetry/api';
+import { isApiError } from '@/lib/api-error';
+import { LokiMetadata, LokiShipper } from '@/lib/loki';
+import { getLogContext, runWithLogContext } from '@/lib/log-context';
+import { observeLokiStats, recordOperation } from '@/lib/metrics';
+import { createRedactor, redactionRulesFromEnv } from '@/lib/redaction';
+import { onShutdown } from '@/lib/shutdown';
 
 // ----------------- Tracing -----------------
 export const tracer = trace.getTracer('gitlab-demo-app');
@@ -57,6 +62,8 @@ const LOKI_ENV = process.env.LOKI_ENV || process.env.NODE_ENV || 'development';
 const LOKI_JOB = process.env.LOKI_JOB || LOKI_APP;
 const LOKI_USERNAME = process.env.LOKI_USERNAME;
 const LOKI_PASSWORD = process.env.LOKI_PASSWORD;
+// structured metadata를 지원하지 않는 Loki(2.9 미만)에서는 false로 두면 필드를 줄 끝에 JSON으로 붙임
+const LOKI_STRUCTURED_METADATA = process.env.LOKI_STRUCTURED_METADATA !== 'false';
 
 function getAuthHeaders() {
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -70,58 +77,159 @@ function nowInNano(): string {
   return (BigInt(Date.now()) * 1000000n).toString();
 }
 
-async function pushToLoki(level: string, message: string, fields?: Record<string, any>) {
-  try {
-    const labels = { job: LOKI_JOB, level, app: LOKI_APP, env: LOKI_ENV };
-    const line = fields && Object.keys(fields).length ? `${message} | ${JSON.stringify(fields)}` : message;
-    const body = { streams: [{ stream: labels, values: [[nowInNano(), line]] }] };
-    await axios.post(LOKI_URL, body, { headers: getAuthHeaders(), timeout: 5000 });
-  } catch {}
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+declare global {
+  var _lokiShipper: LokiShipper | undefined;
+}
+
+/**
+ * Loki 전송 버퍼 (개발 서버 재로딩 시 중복 생성 방지)
+ * 전송 실패 경고는 Loki로 보내지 않고 로컬 pino 파일에만 기록
+ */
+function getLokiShipper() {
+  if (global._lokiShipper) return global._lokiShipper;
+
+  const shipper = new LokiShipper({
+    url: LOKI_URL,
+    headers: getAuthHeaders(),
+    batchSize: numberFromEnv('LOKI_BATCH_SIZE', 500),
+    flushIntervalMs: numberFromEnv('LOKI_FLUSH_INTERVAL_MS', 2000),
+    maxBufferBytes: numberFromEnv('LOKI_MAX_BUFFER_BYTES', 8 * 1024 * 1024),
+    maxRetries: numberFromEnv('LOKI_MAX_RETRIES', 5),
+    timeoutMs: 5000,
+    onWarn: (message, fields) => logger.warn(fields, message),
+  });
+  global._lokiShipper = shipper;
+  observeLokiStats(() => shipper.stats());
+
+  // 정상 종료/종료 신호 때 남은 로그 전송
+  onShutdown('loki', () => shipper.stop());
+  return shipper;
+}
+
+// structured metadata 값은 문자열만 가능하므로 중첩 값은 JSON으로
+function toLokiMetadata(fields: Record<string, unknown>): LokiMetadata {
+  const metadata: LokiMetadata = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    metadata[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return metadata;
+}
+
+function pushToLoki(level: string, message: string, fields?: Record<string, any>) {
+  const labels = { job: LOKI_JOB, level, app: LOKI_APP, env: LOKI_ENV };
+  const hasFields = !!fields && Object.keys(fields).length > 0;
+  if (LOKI_STRUCTURED_METADATA) {
+    getLokiShipper().push(labels, nowInNano(), message, hasFields ? toLokiMetadata(fields) : undefined);
+  } else {
+    getLokiShipper().push(labels, nowInNano(), hasFields ? `${message} | ${JSON.stringify(fields)}` : message);
+  }
+}
+
+/**
+ * Loki 전송 상태 (버퍼 크기, 버린 로그 수, 실패한 전송 수)
+ */
+export function getLokiStats() {
+  return getLokiShipper().stats();
 }
 
 // ----------------- 수동 계측 전용 Logger -----------------
+// 비밀번호/토큰 등은 파일과 Loki 양쪽에 남기 전에 가림
+const redact = createRedactor(redactionRulesFromEnv());
+
+/**
+ * W3C traceparent 헤더 값 (00-traceId-spanId-flags)
+ */
+export function formatTraceparent(context: SpanContext) {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+// 현재 활성 span 기준 trace_id/span_id/trace_flags
+// traceId를 따로 넘긴 경우 같은 trace의 span일 때만 span_id를 붙임
+function traceFields(traceId?: string) {
+  const context = trace.getActiveSpan()?.spanContext();
+  if (!context || (traceId && context.traceId !== traceId)) return traceId ? { trace_id: traceId } : {};
+  return {
+    trace_id: context.traceId,
+    span_id: context.spanId,
+    trace_flags: context.traceFlags.toString(16).padStart(2, '0'),
+  };
+}
+
 function logMessage(
   level: 'debug' | 'info' | 'warn' | 'error',
   message: string,
   extra?: Record<string, any>,
   traceId?: string,
-  error?: Error
+  error?: Error,
+  bindings?: Record<string, unknown>
 ) {
-  const fields: Record<string, any> = { ...extra };
-  if (traceId) fields.trace_id = traceId; // traceID는 수동계측에서만
+  const fields: Record<string, any> = { ...getLogContext(), ...bindings, ...extra, ...traceFields(traceId) };
   if (error) fields.error = { name: error.name, message: error.message, stack: error.stack };
 
-  logger[level](fields, message);
-  void pushToLoki(level, message, fields);
+  const safeFields = redact.fields(fields);
+  const safeMessage = redact.message(message);
+  logger[level](safeFields, safeMessage);
+  pushToLoki(level, safeMessage, safeFields);
 }
 
-export function createManualLogger(traceId?: string) {
+export type ManualLogger = {
+  debug: (msg: string, extra?: Record<string, any>) => void;
+  info: (msg: string, extra?: Record<string, any>) => void;
+  warn: (msg: string, extra?: Record<string, any>) => void;
+  error: (msg: string, err?: Error, extra?: Record<string, any>) => void;
+  /** bindings를 모든 로그에 붙이는 하위 logger */
+  child: (bindings: Record<string, unknown>) => ManualLogger;
+};
+
+export function createManualLogger(traceId?: string, bindings?: Record<string, unknown>): ManualLogger {
   return {
-    debug: (msg: string, extra?: Record<string, any>) => logMessage('debug', msg, extra, traceId),
-    info: (msg: string, extra?: Record<string, any>) => logMessage('info', msg, extra, traceId),
-    warn: (msg: string, extra?: Record<string, any>) => logMessage('warn', msg, extra, traceId),
-    error: (msg: string, err?: Error, extra?: Record<string, any>) => logMessage('error', msg, extra, traceId, err),
+    debug: (msg, extra) => logMessage('debug', msg, extra, traceId, undefined, bindings),
+    info: (msg, extra) => logMessage('info', msg, extra, traceId, undefined, bindings),
+    warn: (msg, extra) => logMessage('warn', msg, extra, traceId, undefined, bindings),
+    error: (msg, err, extra) => logMessage('error', msg, extra, traceId, err, bindings),
+    child: (more) => createManualLogger(traceId, { ...bindings, ...more }),
   };
 }
 
 // ----------------- withLogging 헬퍼 -----------------
+/**
+ * 시작/완료/실패 로그를 남기며 fn 실행
+ * fn 안의 모든 로그(하위 span 포함)에 route(=operation)가 붙고, bindLogContext로 필드를 더할 수 있음
+ */
 export async function withLogging<T>(
   operation: string,
-  fn: (logger: ReturnType<typeof createManualLogger>) => Promise<T>
+  fn: (logger: ManualLogger) => Promise<T>
 ): Promise<T> {
-  const activeSpan = trace.getActiveSpan();
-  const traceId = activeSpan ? activeSpan.spanContext().traceId : undefined; // 수동계측 traceID만
-  const logger = createManualLogger(traceId);
-
-  try {
-    logger.info(`Starting ${operation}`);
-    const result = await fn(logger);
-    logger.info(`Completed ${operation}`);
-    return result;
-  } catch (error: any) {
-    logger.error(`Failed ${operation}`, error);
-    throw error;
-  }
+  return runWithLogContext({ route: operation }, async () => {
+    const activeSpan = trace.getActiveSpan();
+    const traceId = activeSpan ? activeSpan.spanContext().traceId : undefined;
+    const logger = createManualLogger(traceId);
+    const startedAt = performance.now();
+
+    try {
+      logger.info(`Starting ${operation}`);
+      const result = await fn(logger);
+      logger.info(`Completed ${operation}`);
+      recordOperation(operation, 'success', performance.now() - startedAt);
+      return result;
+    } catch (error: any) {
+      // 클라이언트 요청 오류(검증 실패, 권한 없음 등)는 warn으로 구분해서 기록
+      if (isApiError(error) && error.status < 500) {
+        logger.warn(`Rejected ${operation}`, { code: error.code, status: error.status, details: error.details });
+        recordOperation(operation, 'rejected', performance.now() - startedAt);
+      } else {
+        logger.error(`Failed ${operation}`, error);
+        recordOperation(operation, 'error', performance.now() - startedAt);
+      }
+      throw error;
+    }
+  });
 }
 
 export default logger;
\ No newline at end of file
@@ -0,0 +1,208 @@
+import axios from 'axios';
+
+export type LokiLabels = Record<string, string>;
+
+// Loki 2.9+ structured metadata (라벨처럼 인덱싱하지 않고 줄마다 붙는 키/값)
+export type LokiMetadata = Record<string, string>;
+
+type Entry = [string, string] | [string, string, LokiMetadata];
+
+type Stream = { stream: LokiLabels; values: Entry[] };
+
+function entrySize([, line, metadata]: Entry) {
+  if (!metadata) return line.length;
+  return Object.entries(metadata).reduce((size, [key, value]) => size + key.length + value.length, line.length);
+}
+
+export type LokiShipperOptions = {
+  url: string;
+  headers: Record<string, string>;
+  // 이만큼 쌓이면 주기를 기다리지 않고 전송
+  batchSize: number;
+  flushIntervalMs: number;
+  // 전송하지 못한 로그가 이 크기를 넘으면 새 로그는 버림
+  maxBufferBytes: number;
+  maxRetries: number;
+  timeoutMs: number;
+  // 전송 실패/로그 유실 알림 (Loki로 보내면 안 되므로 로컬 로그로만)
+  onWarn: (message: string, fields: Record<string, unknown>) => void;
+};
+
+export type LokiShipperStats = { buffered: number; bufferedBytes: number; dropped: number; failedPushes: number };
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30_000;
+// 실패 경고는 이 간격에 한 번만
+const WARN_INTERVAL_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 네트워크 오류, 429, 5xx만 다시 시도 (나머지 4xx는 다시 보내도 실패)
+function isRetryable(error: unknown) {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  const { status } = error.response;
+  return status === 429 || status >= 500;
+}
+
+function countEntries(streams: Stream[]) {
+  return streams.reduce((sum, stream) => sum + stream.values.length, 0);
+}
+
+function describe(error: unknown) {
+  if (axios.isAxiosError(error)) return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+  return (error as Error)?.message ?? String(error);
+}
+
+/**
+ * Loki push API 전송 버퍼
+ * 같은 라벨 조합의 로그를 한 stream으로 묶어 크기/주기마다 한 번에 전송하고,
+ * 실패하면 지수 백오프로 다시 시도
+ */
+export class LokiShipper {
+  // 라벨 조합(JSON) → stream
+  private streams = new Map<string, Stream>();
+  private buffered = 0;
+  private bufferedBytes = 0;
+  private dropped = 0;
+  private failedPushes = 0;
+  private flushing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastWarnAt = 0;
+  // 재시도까지 실패하면 잠시 전송을 쉬고 버퍼에만 쌓음
+  private pausedUntil = 0;
+  private stopped = false;
+
+  constructor(private options: LokiShipperOptions) {
+    this.timer = setInterval(() => void this.flush(), options.flushIntervalMs);
+    this.timer.unref();
+  }
+
+  push(labels: LokiLabels, timestampNs: string, line: string, metadata?: LokiMetadata) {
+    const entry: Entry = metadata && Object.keys(metadata).length ? [timestampNs, line, metadata] : [timestampNs, line];
+    const size = entrySize(entry);
+    if (this.stopped || this.bufferedBytes + size > this.options.maxBufferBytes) {
+      this.dropped++;
+      this.warn('Loki 버퍼가 가득 차 로그를 버렸습니다.');
+      return;
+    }
+
+    const key = JSON.stringify(labels);
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = { stream: labels, values: [] };
+      this.streams.set(key, stream);
+    }
+    stream.values.push(entry);
+    this.buffered++;
+    this.bufferedBytes += size;
+
+    if (this.buffered >= this.options.batchSize) void this.flush();
+  }
+
+  /**
+   * 쌓인 로그 전송 (이미 전송 중이면 그 전송이 끝나기를 기다림)
+   */
+  flush(force = false): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (!this.buffered || (!force && Date.now() < this.pausedUntil)) return Promise.resolve();
+
+    this.flushing = this.drain().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * 주기 전송을 멈추고 남은 로그를 보냄 (대기 시간 제한은 종료 처리 쪽에서 적용)
+   * 이후 들어오는 로그는 버림
+   */
+  async stop() {
+    this.stopped = true;
+    if (this.timer) clearInterval(this.timer);
+    await this.flushing;
+    await this.flush(true);
+  }
+
+  stats(): LokiShipperStats {
+    return { buffered: this.buffered, bufferedBytes: this.bufferedBytes, dropped: this.dropped, failedPushes: this.failedPushes };
+  }
+
+  private async drain() {
+    // 한 번에 batchSize를 넘게 쌓였을 수 있으므로 빌 때까지 반복
+    while (this.buffered) {
+      const batch = this.take();
+      // Loki가 거부한 배치(재시도 불가)는 버렸으므로 남은 로그는 계속 보냄
+      if ((await this.send(batch)) === 'failed') {
+        this.pausedUntil = Date.now() + RETRY_MAX_MS;
+        return;
+      }
+    }
+  }
+
+  // 버퍼를 비우고 보낼 stream 목록 반환
+  private take() {
+    const streams = [...this.streams.values()];
+    this.streams.clear();
+    this.buffered = 0;
+    this.bufferedBytes = 0;
+    return streams;
+  }
+
+  // 전송 결과 반환
+  // - failed: 재시도까지 실패, 자리가 있으면 다시 버퍼 앞에 넣음
+  // - rejected: 재시도할 수 없는 4xx, 배치를 버리고 dropped로 셈
+  private async send(streams: Stream[]): Promise<'sent' | 'rejected' | 'failed'> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await axios.post(
+          this.options.url,
+          { streams },
+          { headers: this.options.headers, timeout: this.options.timeoutMs }
+        );
+        return 'sent';
+      } catch (error) {
+        // failedPushes는 재시도 중 실패가 아니라 배치를 끝내 보내지 못한 횟수
+        if (!isRetryable(error)) {
+          this.failedPushes++;
+          this.dropped += countEntries(streams);
+          this.warn('Loki가 로그를 거부해 버렸습니다.', { error: describe(error), attempts: attempt + 1 });
+          return 'rejected';
+        }
+        if (attempt >= this.options.maxRetries) {
+          this.failedPushes++;
+          const requeued = this.requeue(streams);
+          this.warn('Loki 전송 실패', { error: describe(error), attempts: attempt + 1, requeued });
+          return 'failed';
+        }
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+        await sleep(delay / 2 + Math.random() * (delay / 2));
+      }
+    }
+  }
+
+  private requeue(streams: Stream[]) {
+    const entries = countEntries(streams);
+    const bytes = streams.reduce((sum, stream) => sum + stream.values.reduce((n, entry) => n + entrySize(entry), 0), 0);
+    if (this.bufferedBytes + bytes > this.options.maxBufferBytes) {
+      this.dropped += entries;
+      return false;
+    }
+
+    // 실패한 배치가 나중에 쌓인 로그보다 먼저 가도록 앞에 붙임
+    for (const failed of streams) {
+      const key = JSON.stringify(failed.stream);
+      const current = this.streams.get(key);
+      this.streams.set(key, { stream: failed.stream, values: [...failed.values, ...(current?.values ?? [])] });
+    }
+    this.buffered += entries;
+    this.bufferedBytes += bytes;
+    return true;
+  }
+
+  private warn(message: string, fields: Record<string, unknown> = {}) {
+    const now = Date.now();
+    if (now - this.lastWarnAt < WARN_INTERVAL_MS) return;
+    this.lastWarnAt = now;
+    this.options.onWarn(message, { ...fields, ...this.stats() });
+  }
+}
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { createManualLogger } from '@/lib/logger-tracing';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * 메일 전송 인터페이스
+ * MAIL_TRANSPORT 환경변수로 구현체 선택 (console | file | smtp)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@gitlab-demo-app.local';
+
+// ----------------- 개발/테스트용 -----------------
+/**
+ * 실제 전송 없이 로그로만 남김
+ * 본문에는 재설정/인증 토큰이 들어 있으므로 남기지 않음 (내용 확인은 MAIL_TRANSPORT=file)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    createManualLogger().info('메일 전송 (console)', { email: message.to, subject: message.subject });
+  }
+}
+
+/**
+ * 메일을 디렉터리에 JSON 파일로 저장 (테스트에서 내용 확인용)
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private dir = process.env.MAIL_DIR || path.join(process.cwd(), 'mails')) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`);
+    await fs.writeFile(file, JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2));
+    createManualLogger().info('메일 전송 (file)', { email: message.to, subject: message.subject, file });
+  }
+}
+
+// ----------------- 운영용 -----------------
+export class SmtpMailTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+    createManualLogger().info('메일 전송 (smtp)', { email: message.to, subject: message.subject });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) throw new Error('SMTP_HOST 환경변수가 필요합니다.');
+      transport = new SmtpMailTransport();
+      break;
+    case 'file':
+      transport = new FileMailTransport();
+      break;
+    case 'console':
+      transport = new ConsoleMailTransport();
+      break;
+    default:
+      // 운영에서 설정을 빠뜨리면 메일이 조용히 사라지지 않도록 명시를 요구
+      if (process.env.NODE_ENV === 'production') throw new Error('MAIL_TRANSPORT 환경변수가 필요합니다.');
+      transport = new ConsoleMailTransport();
+  }
+  return transport;
+}
+
+/**
+ * 메일 본문에 넣을 절대 URL
+ * 요청 origin은 Host 헤더로 바꿀 수 있으므로 쓰지 않고, APP_URL이 없으면 메일을 보내지 않음
+ */
+export function appUrl(pathname: string) {
+  const base = process.env.APP_URL;
+  if (!base) throw new Error('APP_URL 환경변수가 없어 메일 링크를 만들 수 없습니다.');
+  return new URL(pathname, base).toString();
+}
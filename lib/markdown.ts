@@ -0,0 +1,75 @@
+import MarkdownIt from 'markdown-it';
+import hljs from 'highlight.js';
+import sanitizeHtml from 'sanitize-html';
+import { getRepositories, PostDoc } from '@/lib/repositories';
+
+// 렌더러/허용 목록을 바꾸면 올려서 저장된 HTML을 다시 만들게 함
+export const MARKDOWN_RENDERER_VERSION = 1;
+
+const markdown = new MarkdownIt({
+  // 원본 HTML은 렌더링하지 않고 문자열로 이스케이프
+  html: false,
+  linkify: true,
+  breaks: true,
+  highlight(code, lang) {
+    if (lang && hljs.getLanguage(lang)) {
+      return hljs.highlight(code, { language: lang, ignoreIllegals: true }).value;
+    }
+    return '';
+  },
+});
+
+// 허용 목록 밖의 태그/속성/스킴은 모두 제거
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'p', 'br', 'hr', 'blockquote',
+    'strong', 'em', 's', 'del', 'code', 'pre', 'span',
+    'ul', 'ol', 'li',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+    'a',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel', 'target'],
+    ol: ['start'],
+    th: ['style'],
+    td: ['style'],
+    code: ['class'],
+    span: ['class'],
+  },
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+    // highlight.js 토큰 (예: hljs-keyword, hljs-title function_)
+    span: [/^hljs-[\w-]+$/, /^[a-z]+_$/],
+  },
+  // 표 정렬만 허용
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] },
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer nofollow', target: '_blank' }),
+  },
+};
+
+/**
+ * Markdown을 안전한 HTML로 변환
+ */
+export function renderMarkdown(source: string) {
+  return sanitizeHtml(markdown.render(source), SANITIZE_OPTIONS);
+}
+
+/**
+ * 게시글 본문 HTML (저장된 HTML이 없거나 렌더러 버전이 다르면 다시 만들어 저장)
+ */
+export async function renderPostContent(post: PostDoc) {
+  if (post.contentHtml !== undefined && post.contentHtmlVersion === MARKDOWN_RENDERER_VERSION) {
+    return post.contentHtml;
+  }
+  const html = renderMarkdown(post.content);
+  // 렌더링하는 사이 글이 수정됐으면 저장하지 않음
+  await getRepositories().posts.cacheContentHtml(post._id, { html, version: MARKDOWN_RENDERER_VERSION }, post.updatedAt);
+  return html;
+}
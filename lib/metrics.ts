@@ -0,0 +1,103 @@
+import { metrics, Counter, Histogram } from '@opentelemetry/api';
+import { PrometheusExporter, PrometheusSerializer } from '@opentelemetry/exporter-prometheus';
+
+declare global {
+  var _prometheusExporter: PrometheusExporter | undefined;
+}
+
+export type OperationOutcome = 'success' | 'rejected' | 'error';
+
+export type LoginOutcome = 'success' | 'invalid_credentials' | 'locked' | 'disabled';
+
+export type PostDeleteMode = 'trash' | 'permanent' | 'purge';
+
+type Instruments = {
+  httpDuration: Histogram;
+  operationDuration: Histogram;
+  loginAttempts: Counter;
+  postsCreated: Counter;
+  postsDeleted: Counter;
+};
+
+let instruments: Instruments | null = null;
+
+// 계측기는 instrumentation.ts에서 MeterProvider를 등록한 뒤에 만들어야 하므로 처음 기록할 때 생성
+function getInstruments(): Instruments {
+  if (instruments) return instruments;
+  const meter = metrics.getMeter('app');
+  instruments = {
+    httpDuration: meter.createHistogram('app.http.server.duration', {
+      description: 'API 라우트 처리 시간',
+      unit: 'ms',
+    }),
+    operationDuration: meter.createHistogram('app.operation.duration', {
+      description: 'withLogging으로 감싼 작업의 처리 시간과 결과',
+      unit: 'ms',
+    }),
+    loginAttempts: meter.createCounter('app.auth.login.attempts', { description: '로그인 시도 결과' }),
+    postsCreated: meter.createCounter('app.posts.created', { description: '작성된 게시글 수' }),
+    postsDeleted: meter.createCounter('app.posts.deleted', { description: '삭제된 게시글 수 (휴지통 이동/영구 삭제/자동 정리)' }),
+  };
+  return instruments;
+}
+
+/**
+ * API 응답 시간 (route는 apiRoute의 operation 이름)
+ */
+export function recordHttpRequest(route: string, status: number, durationMs: number) {
+  getInstruments().httpDuration.record(durationMs, { 'http.route': route, 'http.response.status_code': status });
+}
+
+export function recordOperation(operation: string, outcome: OperationOutcome, durationMs: number) {
+  getInstruments().operationDuration.record(durationMs, { operation, outcome });
+}
+
+export function recordLogin(outcome: LoginOutcome) {
+  getInstruments().loginAttempts.add(1, { outcome });
+}
+
+export function recordPostsCreated(count = 1) {
+  getInstruments().postsCreated.add(count);
+}
+
+export function recordPostsDeleted(mode: PostDeleteMode, count: number) {
+  if (count > 0) getInstruments().postsDeleted.add(count, { mode });
+}
+
+/**
+ * Loki 전송 상태를 수집 시점마다 읽어 가는 비동기 계측기 등록
+ */
+export function observeLokiStats(stats: () => { buffered: number; dropped: number; failedPushes: number }) {
+  const meter = metrics.getMeter('app');
+  const failures = meter.createObservableCounter('app.loki.push.failures', { description: '재시도까지 실패했거나 Loki가 거부해 포기한 배치 수 (재시도 중 실패는 세지 않음)' });
+  const dropped = meter.createObservableCounter('app.loki.dropped', { description: '버퍼가 가득 차거나 Loki가 거부해 버린 로그 수' });
+  const buffered = meter.createObservableGauge('app.loki.buffered', { description: '전송 대기 중인 로그 수' });
+  meter.addBatchObservableCallback(
+    (result) => {
+      const current = stats();
+      result.observe(failures, current.failedPushes);
+      result.observe(dropped, current.dropped);
+      result.observe(buffered, current.buffered);
+    },
+    [failures, dropped, buffered]
+  );
+}
+
+/**
+ * /api/metrics에서 사용할 Prometheus reader (instrumentation.ts에서 등록)
+ */
+export function setPrometheusExporter(exporter: PrometheusExporter | undefined) {
+  global._prometheusExporter = exporter;
+}
+
+const serializer = new PrometheusSerializer();
+
+/**
+ * 현재 메트릭을 Prometheus 텍스트 형식으로 (Prometheus 수집이 꺼져 있으면 null)
+ */
+export async function renderPrometheusMetrics() {
+  const exporter = global._prometheusExporter;
+  if (!exporter) return null;
+  const { resourceMetrics } = await exporter.collect();
+  return serializer.serialize(resourceMetrics);
+}
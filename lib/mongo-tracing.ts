@@ -0,0 +1,153 @@
+import { context, trace, Span, SpanKind } from '@opentelemetry/api';
+import type { CommandFailedEvent, CommandStartedEvent, CommandSucceededEvent, Document, MongoClient } from 'mongodb';
+import { createManualLogger, tracer } from '@/lib/logger-tracing';
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 이 시간(ms) 이상 걸린 명령은 warn 로그로 남김
+const SLOW_QUERY_MS = numberFromEnv('MONGODB_SLOW_QUERY_MS', 500);
+
+// 연결 확인/인증 등 요청 처리와 무관한 명령은 span을 만들지 않음
+const IGNORED_COMMANDS = new Set(['hello', 'ismaster', 'isMaster', 'ping', 'saslStart', 'saslContinue', 'endSessions']);
+
+// 필터 모양을 남길 때 너무 깊거나 긴 값은 잘라냄
+const MAX_SHAPE_DEPTH = 6;
+const MAX_SHAPE_ITEMS = 10;
+const MAX_STATEMENT_LENGTH = 1000;
+
+/**
+ * 필터 값을 지우고 키/연산자 구조만 남김 (예: { authorId: '?', createdAt: { $lt: '?' } })
+ * 검색어, 이메일 등 실제 값이 span에 남지 않도록 함
+ */
+function filterShape(value: unknown, depth = 0): unknown {
+  if (depth >= MAX_SHAPE_DEPTH) return '...';
+  if (Array.isArray(value)) {
+    // $in 등 값 목록은 하나로, $or/$and 등 조건 목록은 각 조건의 모양으로
+    if (!value.some(isPlainObject)) return '?';
+    return value.slice(0, MAX_SHAPE_ITEMS).map((item) => filterShape(item, depth + 1));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, filterShape(item, depth + 1)]));
+  }
+  return '?';
+}
+
+// ObjectId, Date 등 BSON 값은 값으로 취급
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// 명령 종류별로 조회 조건이 들어 있는 위치
+function commandFilter(commandName: string, command: Document): unknown {
+  switch (commandName) {
+    case 'find':
+      return command.filter;
+    case 'count':
+    case 'distinct':
+    case 'findAndModify':
+      return command.query;
+    case 'aggregate':
+      return command.pipeline;
+    case 'update':
+      return (command.updates as Document[] | undefined)?.map((update) => update.q);
+    case 'delete':
+      return (command.deletes as Document[] | undefined)?.map((deletion) => deletion.q);
+    default:
+      return undefined;
+  }
+}
+
+function statement(commandName: string, command: Document) {
+  const filter = commandFilter(commandName, command);
+  if (filter === undefined) return undefined;
+  const json = JSON.stringify(filterShape(filter));
+  return json.length > MAX_STATEMENT_LENGTH ? `${json.slice(0, MAX_STATEMENT_LENGTH)}...` : json;
+}
+
+type PendingCommand = {
+  span: Span;
+  collection?: string;
+  statement?: string;
+};
+
+/**
+ * MongoClient의 명령 모니터링 이벤트로 모든 명령을 하위 span으로 기록
+ * client는 monitorCommands: true로 생성해야 함
+ * span 속성: db.system, db.name, db.collection.name, db.operation.name, db.statement(값을 지운 필터), db.duration_ms
+ */
+export function instrumentMongoClient(client: MongoClient) {
+  // 같은 연결의 requestId로 시작/완료 이벤트를 짝지음
+  const pending = new Map<string, PendingCommand>();
+  const keyOf = (event: { address: string; connectionId?: string | number; requestId: number }) =>
+    `${event.address}:${event.connectionId}:${event.requestId}`;
+
+  client.on('commandStarted', (event: CommandStartedEvent) => {
+    if (IGNORED_COMMANDS.has(event.commandName)) return;
+
+    const target = event.command[event.commandName];
+    const collection = typeof target === 'string' ? target : undefined;
+    const dbStatement = statement(event.commandName, event.command);
+    const portIndex = event.address.lastIndexOf(':');
+    const host = portIndex > 0 ? event.address.slice(0, portIndex) : event.address;
+    const port = portIndex > 0 ? Number(event.address.slice(portIndex + 1)) : undefined;
+
+    // 이벤트는 명령을 보낸 요청의 비동기 컨텍스트에서 발생하므로 현재 span의 하위로 생성
+    const span = tracer.startSpan(
+      collection ? `mongodb.${event.commandName} ${collection}` : `mongodb.${event.commandName}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'db.system': 'mongodb',
+          'db.name': event.databaseName,
+          'db.operation.name': event.commandName,
+          ...(collection && { 'db.collection.name': collection }),
+          ...(dbStatement && { 'db.statement': dbStatement }),
+          'server.address': host,
+          ...(port && { 'server.port': port }),
+        },
+      },
+      context.active()
+    );
+    pending.set(keyOf(event), { span, collection, statement: dbStatement });
+  });
+
+  const finish = (event: CommandSucceededEvent | CommandFailedEvent, failure?: Error) => {
+    const key = keyOf(event);
+    const command = pending.get(key);
+    if (!command) return;
+    pending.delete(key);
+
+    const { span } = command;
+    span.setAttribute('db.duration_ms', event.duration);
+    if (failure) {
+      span.recordException(failure);
+      span.setStatus({ code: 2, message: failure.message });
+    } else {
+      span.setStatus({ code: 1 });
+    }
+    span.end();
+
+    if (event.duration >= SLOW_QUERY_MS) {
+      // 느린 명령은 해당 span과 연결되도록 같은 컨텍스트에서 기록
+      context.with(trace.setSpan(context.active(), span), () => {
+        createManualLogger(span.spanContext().traceId).warn('느린 MongoDB 명령', {
+          operation: event.commandName,
+          collection: command.collection,
+          statement: command.statement,
+          durationMs: event.duration,
+          thresholdMs: SLOW_QUERY_MS,
+          failed: !!failure,
+        });
+      });
+    }
+  };
+
+  client.on('commandSucceeded', (event: CommandSucceededEvent) => finish(event));
+  client.on('commandFailed', (event: CommandFailedEvent) => finish(event, event.failure));
+  return client;
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { getRepositories, TokenPurpose } from '@/lib/repositories';
+
+export type { TokenPurpose };
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 일회용 토큰 발급
+ * 원문 토큰은 메일로만 전달하고 DB에는 해시만 저장
+ * 같은 용도의 이전 미사용 토큰은 무효화
+ */
+export async function issueToken(userId: string, purpose: TokenPurpose, ttlMs: number) {
+  const now = new Date();
+  const token = crypto.randomBytes(32).toString('base64url');
+  await getRepositories().tokens.replace({
+    tokenHash: hashToken(token),
+    purpose,
+    userId,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ttlMs),
+  });
+  return token;
+}
+
+/**
+ * 토큰 사용 처리 (원자적으로 한 번만 성공)
+ * 유효하면 토큰 주인의 userId, 아니면 null
+ */
+export async function consumeToken(token: string, purpose: TokenPurpose) {
+  return getRepositories().tokens.consume(hashToken(token), purpose);
+}
@@ -0,0 +1,116 @@
+import { ObjectId, Filter, Document, Sort } from 'mongodb';
+import { z } from '@/lib/validation';
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+// value: 숫자 필드(sortBy)로 정렬할 때 그 필드 값
+export type Cursor = { createdAt: Date; id: ObjectId; value?: number };
+
+type CursorDoc = { createdAt: Date; _id: ObjectId };
+
+// 숫자 정렬 필드 값 (없으면 0)
+function sortValue(doc: CursorDoc, sortBy: string) {
+  const value = (doc as Record<string, unknown>)[sortBy];
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * createdAt/_id 쌍(숫자 필드로 정렬하면 그 값까지)을 클라이언트에 넘길 불투명한 커서 문자열로 인코딩
+ */
+export function encodeCursor(doc: CursorDoc, sortBy?: string): string {
+  const raw = JSON.stringify({
+    c: new Date(doc.createdAt).toISOString(),
+    i: String(doc._id),
+    ...(sortBy && { v: sortValue(doc, sortBy) }),
+  });
+  return Buffer.from(raw).toString('base64url');
+}
+
+/**
+ * 커서 문자열 디코딩 (형식이 잘못되면 null)
+ */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const { c, i, v } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const createdAt = new Date(c);
+    if (Number.isNaN(createdAt.getTime()) || !ObjectId.isValid(i)) return null;
+    if (v !== undefined && typeof v !== 'number') return null;
+    return { createdAt, id: new ObjectId(i), value: v };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * limit 쿼리 파라미터 (기본값 DEFAULT_LIMIT, 최대 MAX_LIMIT)
+ */
+export const limitQuery = z.coerce
+  .number({ invalid_type_error: 'limit은 1 이상의 정수여야 합니다.' })
+  .int('limit은 1 이상의 정수여야 합니다.')
+  .min(1, 'limit은 1 이상의 정수여야 합니다.')
+  .default(DEFAULT_LIMIT)
+  .transform((limit) => Math.min(limit, MAX_LIMIT));
+
+/**
+ * 디코딩 함수를 받아 커서 쿼리 파라미터 스키마 생성
+ */
+export function cursorQuery<T>(decode: (value: string) => T | null) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return null;
+      const cursor = decode(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: '잘못된 커서입니다.' });
+        return z.NEVER;
+      }
+      return cursor;
+    });
+}
+
+/**
+ * limit/order/cursor 쿼리 파라미터
+ */
+export const pageQuery = z.object({
+  limit: limitQuery,
+  order: z.enum(['asc', 'desc'], { message: 'order는 asc 또는 desc여야 합니다.' }).default('desc'),
+  cursor: cursorQuery(decodeCursor),
+});
+
+/**
+ * 커서 이후의 문서만 남기는 조건 (createdAt이 같으면 _id로 순서 결정)
+ * sortBy가 있으면 그 숫자 필드를 먼저 비교
+ */
+export function cursorFilter(cursor: Cursor | null, order: SortOrder, sortBy?: string): Filter<Document> {
+  if (!cursor) return {};
+  const op = order === 'desc' ? '$lt' : '$gt';
+  const byCreatedAt = [
+    { createdAt: { [op]: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { [op]: cursor.id } },
+  ];
+  if (!sortBy) return { $or: byCreatedAt };
+
+  const value = cursor.value ?? 0;
+  return {
+    $or: [{ [sortBy]: { [op]: value } }, ...byCreatedAt.map((condition) => ({ [sortBy]: value, ...condition }))],
+  };
+}
+
+export function cursorSort(order: SortOrder, sortBy?: string): Sort {
+  const dir = order === 'desc' ? -1 : 1;
+  return sortBy ? { [sortBy]: dir, createdAt: dir, _id: dir } : { createdAt: dir, _id: dir };
+}
+
+/**
+ * limit + 1개를 조회한 결과에서 다음 페이지 커서를 계산
+ */
+export function toPage<T extends CursorDoc>(docs: T[], limit: number, sortBy?: string) {
+  const items = docs.slice(0, limit);
+  const nextCursor = docs.length > limit ? encodeCursor(items[items.length - 1], sortBy) : null;
+  return { items, nextCursor };
+}
+
@@ -0,0 +1,79 @@
+// 역할 기반 권한 정책
+// 모든 라우트는 직접 authorId를 비교하지 않고 can()으로 권한을 확인
+
+export const ROLES = ['user', 'moderator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Action =
+  | 'post:create'
+  | 'post:update'
+  | 'post:delete'
+  | 'post:restore'
+  | 'post:hide'
+  | 'comment:create'
+  | 'comment:update'
+  | 'comment:delete'
+  | 'admin:access'
+  | 'user:list'
+  | 'user:changeRole'
+  | 'user:disable';
+
+export type Actor = { id: string; role?: Role };
+
+// 권한 판단에 필요한 리소스 정보 (게시글/댓글 작성자, 댓글이 달린 게시글 작성자, 휴지통으로 옮긴 사용자)
+export type Resource = { authorId?: string; postAuthorId?: string; deletedBy?: string };
+
+const RANK: Record<Role, number> = { user: 0, moderator: 1, admin: 2 };
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(actor: Actor, role: Role) {
+  return RANK[actor.role ?? 'user'] >= RANK[role];
+}
+
+function isOwner(actor: Actor, resource?: Resource) {
+  return !!resource?.authorId && resource.authorId === actor.id;
+}
+
+/**
+ * actor가 resource에 대해 action을 수행할 수 있는지 확인
+ */
+export function can(actor: Actor | null | undefined, action: Action, resource?: Resource): boolean {
+  if (!actor) return false;
+
+  switch (action) {
+    case 'post:create':
+    case 'comment:create':
+      return true;
+    // 수정은 작성자 본인만 (관리자도 남의 글 내용을 바꾸지 않음)
+    case 'post:update':
+    case 'comment:update':
+      return isOwner(actor, resource);
+    case 'post:delete':
+      return isOwner(actor, resource) || hasRole(actor, 'moderator');
+    // 휴지통 글 복원/영구 삭제: 모더레이터가 옮긴 글은 작성자가 되돌릴 수 없음
+    case 'post:restore':
+      return (
+        (isOwner(actor, resource) && (!resource?.deletedBy || resource.deletedBy === actor.id)) ||
+        hasRole(actor, 'moderator')
+      );
+    // 댓글은 댓글 작성자, 게시글 작성자, 모더레이터가 삭제 가능
+    case 'comment:delete':
+      return (
+        isOwner(actor, resource) ||
+        (!!resource?.postAuthorId && resource.postAuthorId === actor.id) ||
+        hasRole(actor, 'moderator')
+      );
+    case 'post:hide':
+    case 'admin:access':
+      return hasRole(actor, 'moderator');
+    case 'user:list':
+    case 'user:changeRole':
+    case 'user:disable':
+      return hasRole(actor, 'admin');
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,113 @@
+import { Collection } from 'mongodb';
+import { PostDoc } from '@/lib/repositories/types';
+import { can, Actor } from '@/lib/policy';
+import { ApiError, ErrorCode } from '@/lib/api-error';
+import { z, nonEmptyString } from '@/lib/validation';
+
+// posts 컬렉션 인덱스는 프로세스당 한 번만 생성
+let postIndexes: Promise<unknown> | null = null;
+
+/**
+ * 목록/검색 쿼리에 필요한 posts 인덱스 생성
+ * - createdAt/_id: 커서 페이지네이션
+ * - authorId: 작성자 필터
+ * - deletedAt: 휴지통 정리
+ * - tags: 태그 필터
+ * - viewCount/reactionCount: 조회수/반응 수 정렬
+ * - text(title, content): 전문 검색 (제목 가중치 3)
+ */
+export function ensurePostIndexes(posts: Collection<PostDoc>) {
+  postIndexes ??= Promise.all([
+    posts.createIndex({ createdAt: -1, _id: -1 }),
+    posts.createIndex({ authorId: 1, createdAt: -1, _id: -1 }),
+    posts.createIndex({ tags: 1, createdAt: -1, _id: -1 }),
+    posts.createIndex({ viewCount: -1, createdAt: -1, _id: -1 }),
+    posts.createIndex({ reactionCount: -1, createdAt: -1, _id: -1 }),
+    // 카운터 도입 전 글은 0으로 채움 (필드가 없으면 정렬/커서 비교에서 빠짐)
+    posts.updateMany({ viewCount: { $exists: false } }, { $set: { viewCount: 0, reactionCount: 0 } }),
+    // 휴지통 보관 기간이 지난 글 정리용
+    posts.createIndex({ deletedAt: 1 }, { sparse: true }),
+    posts.createIndex(
+      { title: 'text', content: 'text' },
+      // 한국어는 형태소 분석기가 없으므로 stemming/불용어 처리를 끈다
+      { weights: { title: 3, content: 1 }, default_language: 'none', name: 'posts_text' }
+    ),
+  ]).catch((error) => {
+    postIndexes = null;
+    throw error;
+  });
+  return postIndexes;
+}
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * 태그를 소문자 slug로 정규화 ("Release Notes" → "release-notes")
+ * 글자/숫자 외의 문자는 '-'로 바꾸고 앞뒤 '-'는 제거
+ */
+export function normalizeTag(tag: string) {
+  return tag
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+const tagMessage = '태그는 글자나 숫자를 포함해야 합니다.';
+
+export const tagSlug = z.string().transform(normalizeTag).pipe(z.string().min(1, tagMessage));
+
+// 정규화 후 중복 제거
+const tagList = z
+  .array(tagSlug, { invalid_type_error: '태그는 배열이어야 합니다.' })
+  .transform((tags) => [...new Set(tags)])
+  .pipe(z.array(z.string()).max(MAX_TAGS, `태그는 최대 ${MAX_TAGS}개까지 붙일 수 있습니다.`));
+
+// 게시글 작성/수정 본문 (수정 때 tags를 생략하면 기존 태그 유지)
+export const postInput = z.object({
+  title: nonEmptyString('제목/내용이 필요합니다.'),
+  content: nonEmptyString('제목/내용이 필요합니다.'),
+  tags: tagList.optional(),
+});
+
+/**
+ * 숨김 처리된 게시글은 작성자와 모더레이터에게만 보임
+ */
+export function canViewPost(post: Pick<PostDoc, 'hidden' | 'authorId'>, user: Actor | null) {
+  return !post.hidden || post.authorId === user?.id || can(user, 'post:hide');
+}
+
+/**
+ * 게시글 ETag (updatedAt 기반, 수정될 때마다 바뀜)
+ */
+export function postETag(post: Pick<PostDoc, 'updatedAt'>) {
+  return `"${new Date(post.updatedAt).getTime().toString(36)}"`;
+}
+
+/**
+ * If-Match가 현재 버전과 다를 때의 412 에러
+ * 클라이언트가 충돌을 보여줄 수 있도록 서버의 현재 글을 함께 보냄
+ */
+export function preconditionFailed(current: PostDoc) {
+  return new ApiError(
+    412,
+    ErrorCode.PRECONDITION_FAILED,
+    '다른 곳에서 게시글이 먼저 수정되었습니다.',
+    { post: current },
+    { ETag: postETag(current) }
+  );
+}
+
+/**
+ * If-Match 헤더가 현재 ETag와 맞는지 확인 (헤더가 없으면 통과)
+ * If-Match는 강한 비교를 쓰므로 약한 검증자(W/"...")는 같은 값이어도 불일치
+ */
+export function ifMatchSatisfied(header: string | null, etag: string) {
+  if (!header) return true;
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || (!tag.startsWith('W/') && tag === etag));
+}
@@ -0,0 +1,308 @@
+import { trace } from '@opentelemetry/api';
+import { getDatabase } from '@/lib/database';
+import { createManualLogger } from '@/lib/logger-tracing';
+
+// ----------------- 저장소 -----------------
+export type AttemptEntry = {
+  failures: number;
+  windowStartedAt: number; // epoch ms
+  lockedUntil?: number; // epoch ms
+};
+
+/**
+ * 실패 횟수 저장소 인터페이스
+ * 단일 인스턴스는 메모리, 여러 인스턴스는 MongoDB 저장소를 사용
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<AttemptEntry | null>;
+  /**
+   * 실패 횟수를 원자적으로 1 늘리고 갱신된 기록을 반환
+   * 구간(windowMs)이 지났으면 1부터 다시 셈
+   */
+  increment(key: string, windowMs: number, ttlMs: number): Promise<AttemptEntry>;
+  lock(key: string, lockedUntil: number, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { entry: AttemptEntry; expiresAt: number }>();
+
+  async get(key: string) {
+    const item = this.entries.get(key);
+    if (!item) return null;
+    if (item.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return item.entry;
+  }
+
+  // await 없이 읽고 쓰므로 동시 요청 사이에 끼어들 수 없음
+  async increment(key: string, windowMs: number, ttlMs: number) {
+    const now = Date.now();
+    const item = this.entries.get(key);
+    const previous = item && item.expiresAt > now ? item.entry : null;
+    const entry: AttemptEntry =
+      previous && now - previous.windowStartedAt < windowMs
+        ? { ...previous, failures: previous.failures + 1 }
+        : { failures: 1, windowStartedAt: now, lockedUntil: previous?.lockedUntil };
+    this.entries.set(key, { entry, expiresAt: now + ttlMs });
+    return { ...entry };
+  }
+
+  async lock(key: string, lockedUntil: number, ttlMs: number) {
+    const item = this.entries.get(key);
+    if (!item) return;
+    item.entry = { ...item.entry, lockedUntil };
+    item.expiresAt = Math.max(item.expiresAt, Date.now() + ttlMs);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+type AttemptDoc = AttemptEntry & { _id: string; expiresAt: Date };
+
+export class MongoRateLimitStore implements RateLimitStore {
+  private indexes: Promise<unknown> | null = null;
+
+  constructor(private collectionName = 'login_attempts') {}
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<AttemptDoc>(this.collectionName);
+    // 만료된 기록은 TTL 인덱스가 자동 삭제
+    this.indexes ??= collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async get(key: string) {
+    const collection = await this.collection();
+    const doc = await collection.findOne({ _id: key, expiresAt: { $gt: new Date() } });
+    if (!doc) return null;
+    return { failures: doc.failures, windowStartedAt: doc.windowStartedAt, lockedUntil: doc.lockedUntil };
+  }
+
+  async increment(key: string, windowMs: number, ttlMs: number) {
+    const collection = await this.collection();
+    const now = Date.now();
+    // 만료 전 TTL 인덱스가 아직 지우지 않은 기록도 새 구간으로 취급
+    const expired = {
+      $or: [
+        { $lte: [{ $ifNull: ['$expiresAt', null] }, new Date(now)] },
+        { $lte: [{ $ifNull: ['$windowStartedAt', 0] }, now - windowMs] },
+      ],
+    };
+    // 파이프라인 update 한 번으로 구간 확인과 증가를 처리해 동시 실패가 유실되지 않음
+    const doc = await collection.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            failures: { $cond: [expired, 1, { $add: ['$failures', 1] }] },
+            windowStartedAt: { $cond: [expired, now, '$windowStartedAt'] },
+            expiresAt: new Date(now + ttlMs),
+          },
+        },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+    if (!doc) throw new Error('로그인 시도 기록을 갱신하지 못했습니다.');
+    return { failures: doc.failures, windowStartedAt: doc.windowStartedAt, lockedUntil: doc.lockedUntil };
+  }
+
+  async lock(key: string, lockedUntil: number, ttlMs: number) {
+    const collection = await this.collection();
+    await collection.updateOne({ _id: key }, [
+      { $set: { lockedUntil, expiresAt: { $max: ['$expiresAt', new Date(Date.now() + ttlMs)] } } },
+    ]);
+  }
+
+  async delete(key: string) {
+    const collection = await this.collection();
+    await collection.deleteOne({ _id: key });
+  }
+}
+
+// ----------------- 제한기 -----------------
+export type LimitRule = {
+  maxFailures: number; // 이 횟수만큼 실패하면 잠금
+  windowMs: number; // 실패 횟수를 세는 구간
+  lockoutMs: number; // 잠금 유지 시간
+};
+
+export type LimitCheck = { locked: false } | { locked: true; retryAfterSeconds: number; key: string };
+
+export type LoginRateLimiterOptions = {
+  store: RateLimitStore;
+  ip: LimitRule;
+  email: LimitRule;
+  baseDelayMs: number; // 점진적 지연 시작값 (실패할 때마다 2배)
+  maxDelayMs: number;
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * IP/이메일 기준 로그인 시도 제한
+ * - 실패할수록 응답을 점진적으로 지연
+ * - 구간 내 실패가 maxFailures에 도달하면 lockoutMs 동안 잠금
+ */
+export class LoginRateLimiter {
+  constructor(private options: LoginRateLimiterOptions) {}
+
+  // IP를 알 수 없으면 (신뢰하는 프록시 없음) 모든 요청이 한 키를 공유하지 않도록 IP 기준 제한은 생략
+  private targets(ip: string | undefined, email?: string) {
+    const targets: { key: string; rule: LimitRule }[] = [];
+    if (ip) targets.push({ key: `ip:${ip}`, rule: this.options.ip });
+    if (email) targets.push({ key: `email:${email.trim().toLowerCase()}`, rule: this.options.email });
+    return targets;
+  }
+
+  /**
+   * 시도 전 잠금 여부 확인
+   */
+  async check(ip: string | undefined, email?: string): Promise<LimitCheck> {
+    const now = Date.now();
+    for (const { key } of this.targets(ip, email)) {
+      const entry = await this.options.store.get(key);
+      if (entry?.lockedUntil && entry.lockedUntil > now) {
+        return { locked: true, retryAfterSeconds: Math.ceil((entry.lockedUntil - now) / 1000), key };
+      }
+    }
+    return { locked: false };
+  }
+
+  /**
+   * 실패 기록 후 점진적 지연 적용
+   * 잠금 여부는 저장소가 원자적으로 늘려 돌려준 횟수로 판단
+   * 이번 실패로 잠금이 걸리면 잠금 정보를 반환
+   */
+  async recordFailure(ip: string | undefined, email?: string): Promise<LimitCheck> {
+    const now = Date.now();
+    let maxFailures = 0;
+    let result: LimitCheck = { locked: false };
+
+    for (const { key, rule } of this.targets(ip, email)) {
+      const ttlMs = Math.max(rule.windowMs, rule.lockoutMs);
+      const entry = await this.options.store.increment(key, rule.windowMs, ttlMs);
+
+      if (entry.failures >= rule.maxFailures) {
+        entry.lockedUntil = now + rule.lockoutMs;
+        await this.options.store.lock(key, entry.lockedUntil, ttlMs);
+        result = { locked: true, retryAfterSeconds: Math.ceil(rule.lockoutMs / 1000), key };
+        this.logLockout(key, entry, rule);
+      }
+
+      maxFailures = Math.max(maxFailures, entry.failures);
+    }
+
+    if (maxFailures > 0) {
+      await sleep(Math.min(this.options.baseDelayMs * 2 ** (maxFailures - 1), this.options.maxDelayMs));
+    }
+    return result;
+  }
+
+  /**
+   * 로그인 성공 시 이메일 기준 기록 초기화 (IP 기록은 구간 만료까지 유지)
+   */
+  async recordSuccess(email: string) {
+    await this.options.store.delete(`email:${email.trim().toLowerCase()}`);
+  }
+
+  private logLockout(key: string, entry: AttemptEntry, rule: LimitRule) {
+    const traceId = trace.getActiveSpan()?.spanContext().traceId;
+    const logger = createManualLogger(traceId);
+    logger.warn('로그인 잠금', {
+      key,
+      failures: entry.failures,
+      lockedUntil: new Date(entry.lockedUntil!).toISOString(),
+      lockoutSeconds: Math.ceil(rule.lockoutMs / 1000),
+    });
+  }
+}
+
+/**
+ * 구간당 요청 수 제한 (메일 발송처럼 실패와 상관없이 횟수를 막아야 하는 요청)
+ * 저장소의 failures 필드에 요청 수를 셈
+ */
+export type RequestLimitRule = { maxRequests: number; windowMs: number };
+
+export type RequestRateLimiterOptions = {
+  store: RateLimitStore;
+  ip: RequestLimitRule;
+  email: RequestLimitRule;
+};
+
+export class RequestRateLimiter {
+  constructor(private options: RequestRateLimiterOptions) {}
+
+  /**
+   * 요청 한 번을 기록하고 IP/이메일 중 하나라도 구간 한도를 넘었으면 거부 정보를 반환
+   */
+  async hit(ip: string | undefined, email: string): Promise<LimitCheck> {
+    const targets: { key: string; rule: RequestLimitRule }[] = [
+      { key: `email:${email.trim().toLowerCase()}`, rule: this.options.email },
+    ];
+    if (ip) targets.push({ key: `ip:${ip}`, rule: this.options.ip });
+
+    const now = Date.now();
+    let result: LimitCheck = { locked: false };
+    for (const { key, rule } of targets) {
+      const entry = await this.options.store.increment(key, rule.windowMs, rule.windowMs);
+      if (entry.failures > rule.maxRequests && !result.locked) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((entry.windowStartedAt + rule.windowMs - now) / 1000));
+        result = { locked: true, retryAfterSeconds, key };
+      }
+    }
+    return result;
+  }
+}
+
+// ----------------- 기본 설정 -----------------
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * RATE_LIMIT_STORE=mongo 이면 MongoDB 저장소, 그 외에는 메모리 저장소
+ */
+function createStore(collectionName?: string): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'mongo' ? new MongoRateLimitStore(collectionName) : new MemoryRateLimitStore();
+}
+
+export const loginRateLimiter = new LoginRateLimiter({
+  store: createStore(),
+  email: {
+    maxFailures: numberFromEnv('LOGIN_MAX_FAILURES', 5),
+    windowMs: numberFromEnv('LOGIN_FAILURE_WINDOW_SECONDS', 15 * 60) * 1000,
+    lockoutMs: numberFromEnv('LOGIN_LOCKOUT_SECONDS', 15 * 60) * 1000,
+  },
+  ip: {
+    maxFailures: numberFromEnv('LOGIN_MAX_FAILURES_PER_IP', 20),
+    windowMs: numberFromEnv('LOGIN_FAILURE_WINDOW_SECONDS', 15 * 60) * 1000,
+    lockoutMs: numberFromEnv('LOGIN_LOCKOUT_SECONDS', 15 * 60) * 1000,
+  },
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+});
+
+// 비밀번호 재설정/인증 메일 요청 제한
+export const mailRateLimiter = new RequestRateLimiter({
+  store: createStore('mail_requests'),
+  email: {
+    maxRequests: numberFromEnv('MAIL_MAX_REQUESTS_PER_EMAIL', 3),
+    windowMs: numberFromEnv('MAIL_REQUEST_WINDOW_SECONDS', 60 * 60) * 1000,
+  },
+  ip: {
+    maxRequests: numberFromEnv('MAIL_MAX_REQUESTS_PER_IP', 20),
+    windowMs: numberFromEnv('MAIL_REQUEST_WINDOW_SECONDS', 60 * 60) * 1000,
+  },
+});
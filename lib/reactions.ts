@@ -0,0 +1,5 @@
+// 게시글에 남길 수 있는 반응 (순서대로 표시)
+// 클라이언트 컴포넌트에서도 불러 쓰므로 서버 전용 모듈을 import하지 않음
+export const REACTIONS = ['👍', '❤️', '🎉', '😄', '😮', '😢'] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+
+/**
+ * mask: 값을 [REDACTED]로 바꿈
+ * hash: 같은 값끼리는 추적할 수 있도록 해시로 바꿈 (예: 이메일)
+ * remove: 필드를 없앰
+ */
+export type RedactAction = 'mask' | 'hash' | 'remove';
+
+/**
+ * key: 깊이와 상관없이 필드 이름이 맞으면 적용 (대소문자 무시)
+ * path: 로그 필드 기준 점 경로, 한 단계는 *로 대체 가능 (예: headers.authorization, *.token)
+ * pattern: 문자열 값(메시지 포함) 안에서 맞는 부분을 가림
+ */
+export type RedactionRule =
+  | { key: RegExp; action: RedactAction }
+  | { path: string; action: RedactAction }
+  | { pattern: RegExp; action: Exclude<RedactAction, 'remove'> };
+
+const MASK = '[REDACTED]';
+
+// 너무 깊은 객체는 더 내려가지 않고 통째로 가림
+const MAX_DEPTH = 10;
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { key: /^(password|passwd|pwd|new_?password|current_?password)$/i, action: 'remove' },
+  { key: /(secret|token|authorization|cookie|api[-_]?key|credential)/i, action: 'mask' },
+  { key: /^email$/i, action: 'hash' },
+  // to, authorEmail 등 다른 이름의 필드나 메시지에 들어간 이메일 주소
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, action: 'hash' },
+  // 문자열에 섞여 들어간 토큰
+  { pattern: /\bBearer\s+[\w.~+/-]+=*/gi, action: 'mask' },
+  { pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, action: 'mask' },
+];
+
+const HASH_SALT = process.env.LOG_REDACT_HASH_SALT || '';
+
+function hashValue(value: unknown) {
+  const digest = createHash('sha256').update(HASH_SALT).update(String(value)).digest('hex');
+  return `sha256:${digest.slice(0, 16)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function matchesPath(rule: string, path: string[]) {
+  const parts = rule.split('.');
+  return parts.length === path.length && parts.every((part, i) => part === '*' || part === path[i]);
+}
+
+/**
+ * 규칙 목록으로 로그 필드/메시지를 가리는 함수 생성
+ * 원본 객체는 바꾸지 않고 복사본을 돌려줌
+ */
+export function createRedactor(rules: RedactionRule[]) {
+  const fieldRules = rules.filter((rule): rule is Exclude<RedactionRule, { pattern: RegExp }> => !('pattern' in rule));
+  const patternRules = rules.filter((rule): rule is Extract<RedactionRule, { pattern: RegExp }> => 'pattern' in rule);
+
+  function actionFor(path: string[]): RedactAction | null {
+    const key = path[path.length - 1];
+    for (const rule of fieldRules) {
+      if ('key' in rule ? rule.key.test(key) : matchesPath(rule.path, path)) return rule.action;
+    }
+    return null;
+  }
+
+  function redactString(value: string) {
+    return patternRules.reduce(
+      (text, rule) => text.replace(rule.pattern, (match) => (rule.action === 'hash' ? hashValue(match) : MASK)),
+      value
+    );
+  }
+
+  function redactValue(value: unknown, path: string[], seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') return redactString(value);
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) return '[Circular]';
+      if (path.length >= MAX_DEPTH) return MASK;
+      seen.add(value);
+      const result = Array.isArray(value)
+        ? value.map((item, i) => redactValue(item, [...path, String(i)], seen))
+        : redactObject(value, path, seen);
+      seen.delete(value);
+      return result;
+    }
+    return value;
+  }
+
+  function redactObject(value: Record<string, unknown>, path: string[], seen: WeakSet<object>) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = [...path, key];
+      const action = actionFor(itemPath);
+      if (action === 'remove') continue;
+      if (action === 'mask') result[key] = MASK;
+      else if (action === 'hash') result[key] = item == null ? item : hashValue(item);
+      else result[key] = redactValue(item, itemPath, seen);
+    }
+    return result;
+  }
+
+  return {
+    fields: (fields: Record<string, unknown>) => redactObject(fields, [], new WeakSet()),
+    message: redactString,
+  };
+}
+
+const ACTIONS: RedactAction[] = ['mask', 'hash', 'remove'];
+
+// "정규식[:동작]" 목록 (정규식에 쉼표가 들어갈 수 있으므로 공백 구분)
+function regexEntries<T extends RedactAction>(name: string, value: string | undefined, actions: readonly T[], flags: string) {
+  return (value || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((entry): { regex: RegExp; action: T } => {
+      const at = entry.lastIndexOf(':');
+      const suffix = entry.slice(at + 1) as T;
+      const hasAction = at > 0 && actions.includes(suffix);
+      const source = hasAction ? entry.slice(0, at) : entry;
+      try {
+        return { regex: new RegExp(source, flags), action: hasAction ? suffix : ('mask' as T) };
+      } catch {
+        throw new Error(`${name}의 정규식이 올바르지 않습니다: ${source}`);
+      }
+    });
+}
+
+/**
+ * 환경변수로 규칙 구성
+ * - LOG_REDACT_PATHS: 쉼표 구분 "경로[:동작]" (예: user.phone:hash,headers.x-api-key), 동작 생략 시 mask
+ * - LOG_REDACT_KEYS: 공백 구분 "필드 이름 정규식[:동작]" (예: ^phone$:hash ssn), 대소문자 무시
+ * - LOG_REDACT_PATTERNS: 공백 구분 "값 정규식[:mask|hash]" (예: \d{6}-\d{7}), 문자열 값과 메시지에 적용
+ * - LOG_REDACT_DEFAULTS=false: 기본 규칙 끄기
+ */
+export function redactionRulesFromEnv(env: NodeJS.ProcessEnv = process.env): RedactionRule[] {
+  const custom = (env.LOG_REDACT_PATHS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): RedactionRule => {
+      const [path, action] = entry.split(':');
+      return { path, action: ACTIONS.includes(action as RedactAction) ? (action as RedactAction) : 'mask' };
+    });
+  const keys = regexEntries('LOG_REDACT_KEYS', env.LOG_REDACT_KEYS, ACTIONS, 'i').map(
+    ({ regex, action }): RedactionRule => ({ key: regex, action })
+  );
+  const patterns = regexEntries<'mask' | 'hash'>('LOG_REDACT_PATTERNS', env.LOG_REDACT_PATTERNS, ['mask', 'hash'], 'g').map(
+    ({ regex, action }): RedactionRule => ({ pattern: regex, action })
+  );
+  custom.push(...keys, ...patterns);
+  // 직접 지정한 규칙이 기본 key 규칙보다 먼저 적용되도록 앞에 둠
+  return env.LOG_REDACT_DEFAULTS === 'false' ? custom : [...custom, ...DEFAULT_REDACTION_RULES];
+}
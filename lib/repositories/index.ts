@@ -0,0 +1,68 @@
+import {
+  MemoryAttachmentRepository,
+  MemoryCommentRepository,
+  MemoryOneTimeTokenRepository,
+  MemoryPostReactionRepository,
+  MemoryPostRepository,
+  MemoryPostRevisionRepository,
+  MemoryPostViewRepository,
+  MemorySessionRepository,
+  MemoryUserRepository,
+} from '@/lib/repositories/memory';
+import {
+  MongoAttachmentRepository,
+  MongoCommentRepository,
+  MongoOneTimeTokenRepository,
+  MongoPostReactionRepository,
+  MongoPostRepository,
+  MongoPostRevisionRepository,
+  MongoPostViewRepository,
+  MongoSessionRepository,
+  MongoUserRepository,
+} from '@/lib/repositories/mongo';
+import { Repositories } from '@/lib/repositories/types';
+
+export * from '@/lib/repositories/types';
+
+let repositories: Repositories | null = null;
+
+/**
+ * 라우트가 사용하는 저장소 접근자
+ * DATA_STORE=memory 이면 메모리 저장소, 그 외에는 MongoDB 저장소
+ * MongoDB 연결은 Mongo 저장소가 처음 쿼리할 때 만들어지므로 메모리 저장소는 MongoDB 없이 동작
+ */
+export function getRepositories(): Repositories {
+  if (repositories) return repositories;
+  repositories =
+    process.env.DATA_STORE === 'memory'
+      ? {
+          users: new MemoryUserRepository(),
+          posts: new MemoryPostRepository(),
+          revisions: new MemoryPostRevisionRepository(),
+          attachments: new MemoryAttachmentRepository(),
+          reactions: new MemoryPostReactionRepository(),
+          views: new MemoryPostViewRepository(),
+          comments: new MemoryCommentRepository(),
+          sessions: new MemorySessionRepository(),
+          tokens: new MemoryOneTimeTokenRepository(),
+        }
+      : {
+          users: new MongoUserRepository(),
+          posts: new MongoPostRepository(),
+          revisions: new MongoPostRevisionRepository(),
+          attachments: new MongoAttachmentRepository(),
+          reactions: new MongoPostReactionRepository(),
+          views: new MongoPostViewRepository(),
+          comments: new MongoCommentRepository(),
+          sessions: new MongoSessionRepository(),
+          tokens: new MongoOneTimeTokenRepository(),
+        };
+  return repositories;
+}
+
+/**
+ * 테스트에서 저장소를 교체 (null이면 다음 호출 때 환경변수로 다시 생성)
+ */
+export function setRepositories(next: Repositories | null) {
+  repositories = next;
+}
@@ -0,0 +1,519 @@
+import { ObjectId } from 'mongodb';
+import { Cursor, toPage } from '@/lib/pagination';
+import { encodeScoreCursor, extractTerms, ScoreCursor } from '@/lib/search';
+import { Reaction } from '@/lib/reactions';
+import {
+  AttachmentDoc,
+  AttachmentRepository,
+  CommentDoc,
+  CommentRepository,
+  NewComment,
+  OneTimeTokenDoc,
+  OneTimeTokenRepository,
+  SessionDoc,
+  SessionRepository,
+  SessionRotation,
+  TokenPurpose,
+  NewAttachment,
+  NewPost,
+  NewPostRevision,
+  NewUser,
+  PageParams,
+  PostDoc,
+  PostListFilter,
+  PostPatch,
+  PostReactionDoc,
+  PostReactionRepository,
+  PostRepository,
+  PostRevisionDoc,
+  PostRevisionRepository,
+  PostSearchHit,
+  PostTarget,
+  PostViewRepository,
+  TagCount,
+  UserDoc,
+  UserPatch,
+  UserRepository,
+} from '@/lib/repositories/types';
+
+// 테스트/로컬 개발용 저장소: 프로세스가 끝나면 데이터도 사라짐
+// 조회 결과는 복사본을 돌려줘 호출자가 저장된 문서를 직접 바꾸지 못하게 함
+
+type CursorDoc = { createdAt: Date; _id: ObjectId };
+
+// createdAt → _id 순서 비교 (ObjectId 16진 문자열은 생성 순서와 같은 사전순)
+function compareByCreatedAt(a: { createdAt: Date; _id: ObjectId }, b: { createdAt: Date; _id: ObjectId }) {
+  const diff = a.createdAt.getTime() - b.createdAt.getTime();
+  if (diff) return diff;
+  return a._id.toHexString().localeCompare(b._id.toHexString());
+}
+
+function omit<T extends object, K extends keyof T>(doc: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...doc };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
+
+// sortBy 숫자 필드(없으면 0) → createdAt → _id 순서 비교
+function compareForPage(a: CursorDoc, b: CursorDoc, sortBy?: string) {
+  if (sortBy) {
+    const diff = numberField(a, sortBy) - numberField(b, sortBy);
+    if (diff) return diff;
+  }
+  return compareByCreatedAt(a, b);
+}
+
+function numberField(doc: object, field: string) {
+  const value = (doc as Record<string, unknown>)[field];
+  return typeof value === 'number' ? value : 0;
+}
+
+function paginate<T extends CursorDoc>(docs: T[], page: PageParams) {
+  const dir = page.order === 'desc' ? -1 : 1;
+  const sorted = [...docs].sort((a, b) => dir * compareForPage(a, b, page.sortBy));
+  const start = page.cursor ? sorted.filter((doc) => isAfterCursor(doc, page.cursor!, page)) : sorted;
+  return toPage(start.slice(0, page.limit + 1), page.limit, page.sortBy);
+}
+
+function isAfterCursor(doc: CursorDoc, cursor: Cursor, page: PageParams) {
+  const at = { createdAt: cursor.createdAt, _id: cursor.id, ...(page.sortBy && { [page.sortBy]: cursor.value ?? 0 }) };
+  const diff = compareForPage(doc, at, page.sortBy);
+  return page.order === 'desc' ? diff < 0 : diff > 0;
+}
+
+// ----------------- 사용자 -----------------
+export class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserDoc>();
+
+  async findById(id: string) {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string) {
+    const user = [...this.users.values()].find((doc) => doc.email === email);
+    return user ? { ...user } : null;
+  }
+
+  async create(input: NewUser) {
+    if (await this.findByEmail(input.email)) return null;
+    const now = new Date();
+    const doc: UserDoc = { _id: new ObjectId(), ...input, emailVerified: false, createdAt: now, updatedAt: now };
+    this.users.set(String(doc._id), doc);
+    return { ...doc };
+  }
+
+  async update(id: string, patch: UserPatch) {
+    const user = this.users.get(id);
+    if (!user) return false;
+    this.users.set(id, { ...user, ...patch, updatedAt: new Date() });
+    return true;
+  }
+
+  async list(page: PageParams) {
+    const users = [...this.users.values()].map((user) => omit(user, 'password'));
+    return paginate(users, page);
+  }
+}
+
+// ----------------- 게시글 -----------------
+function matchesFilter(post: PostDoc, filter: PostListFilter) {
+  if (filter.hidden === 'only' && !post.hidden) return false;
+  if ((filter.hidden ?? 'exclude') === 'exclude' && post.hidden) return false;
+  if (filter.authorId && post.authorId !== filter.authorId) return false;
+  if (filter.tag && !post.tags?.includes(filter.tag)) return false;
+  if (!!filter.trashed !== !!post.deletedAt) return false;
+  if (filter.deletedBy && post.deletedBy !== filter.deletedBy) return false;
+  if (filter.from && post.createdAt < filter.from) return false;
+  if (filter.to && post.createdAt > filter.to) return false;
+  return true;
+}
+
+function countOccurrences(text: string, term: string) {
+  let count = 0;
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) count++;
+  return count;
+}
+
+// $text와 비슷하게 제목 가중치 3, 본문 1로 단어 등장 횟수를 점수화
+function scorePost(post: PostDoc, terms: string[]) {
+  const title = post.title.toLowerCase();
+  const content = post.content.toLowerCase();
+  return terms.reduce((score, term) => score + 3 * countOccurrences(title, term) + countOccurrences(content, term), 0);
+}
+
+export class MemoryPostRepository implements PostRepository {
+  private posts = new Map<string, PostDoc>();
+
+  async list(filter: PostListFilter, page: PageParams) {
+    const posts = [...this.posts.values()]
+      .filter((post) => matchesFilter(post, filter))
+      .map((post) => omit(post, 'content', 'contentHtml', 'contentHtmlVersion'));
+    return paginate(posts, page);
+  }
+
+  async search(query: string, limit: number, cursor: ScoreCursor | null) {
+    const terms = extractTerms(query).map((term) => term.toLowerCase());
+    const hits: PostSearchHit[] = [...this.posts.values()]
+      .filter((post) => !post.hidden && !post.deletedAt)
+      .map((post) => ({ ...omit(post, 'contentHtml', 'contentHtmlVersion'), score: scorePost(post, terms) }))
+      .filter((hit) => hit.score > 0)
+      .filter((hit) => !cursor || hit.score < cursor.score || (hit.score === cursor.score && hit._id.toHexString() < cursor.id.toHexString()))
+      .sort((a, b) => b.score - a.score || b._id.toHexString().localeCompare(a._id.toHexString()));
+
+    const items = hits.slice(0, limit);
+    const nextCursor = hits.length > limit ? encodeScoreCursor(items[items.length - 1]) : null;
+    return { items, nextCursor };
+  }
+
+  async findById(id: ObjectId, options: { includeTrashed?: boolean } = {}) {
+    const post = this.posts.get(String(id));
+    if (!post || (post.deletedAt && !options.includeTrashed)) return null;
+    return { ...post };
+  }
+
+  async findRefs(target: PostTarget) {
+    const ids = target.ids?.length ? new Set(target.ids.map(String)) : null;
+    return [...this.posts.values()]
+      .filter((post) => (ids ? ids.has(String(post._id)) : post.authorId === target.authorId))
+      .filter((post) => !!target.trashed === !!post.deletedAt)
+      .map(({ _id, authorId, deletedBy }) => ({ _id, authorId, deletedBy }));
+  }
+
+  async create(input: NewPost) {
+    const now = new Date();
+    const doc: PostDoc = { _id: new ObjectId(), ...input, viewCount: 0, reactionCount: 0, createdAt: now, updatedAt: now };
+    this.posts.set(String(doc._id), doc);
+    return { ...doc };
+  }
+
+  async update(id: ObjectId, patch: PostPatch, options: { ifUpdatedAt?: Date } = {}) {
+    const post = this.posts.get(String(id));
+    if (!post || post.deletedAt) return null;
+    if (options.ifUpdatedAt && post.updatedAt.getTime() !== options.ifUpdatedAt.getTime()) return null;
+    const updated = { ...omit(post, 'contentHtml', 'contentHtmlVersion'), ...patch, updatedAt: new Date() };
+    this.posts.set(String(id), updated);
+    return { ...updated };
+  }
+
+  async incrementViewCount(id: ObjectId) {
+    const post = this.posts.get(String(id));
+    if (post) this.posts.set(String(id), { ...post, viewCount: (post.viewCount ?? 0) + 1 });
+  }
+
+  async adjustReactionCount(id: ObjectId, emoji: Reaction, delta: 1 | -1) {
+    const post = this.posts.get(String(id));
+    if (!post) return;
+    this.posts.set(String(id), {
+      ...post,
+      reactionCount: (post.reactionCount ?? 0) + delta,
+      reactions: { ...post.reactions, [emoji]: (post.reactions?.[emoji] ?? 0) + delta },
+    });
+  }
+
+  async tagCounts(limit: number) {
+    const counts = new Map<string, number>();
+    for (const post of this.posts.values()) {
+      if (post.hidden || post.deletedAt) continue;
+      for (const tag of post.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([tag, count]): TagCount => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
+  }
+
+  async cacheContentHtml(id: ObjectId, rendered: { html: string; version: number }, ifUpdatedAt: Date) {
+    const post = this.posts.get(String(id));
+    if (!post || post.updatedAt.getTime() !== ifUpdatedAt.getTime()) return;
+    this.posts.set(String(id), { ...post, contentHtml: rendered.html, contentHtmlVersion: rendered.version });
+  }
+
+  async setHidden(id: ObjectId, hidden: boolean, moderatorId: string) {
+    const post = this.posts.get(String(id));
+    if (!post) return false;
+    const rest = omit(post, 'hidden', 'hiddenBy', 'hiddenAt');
+    this.posts.set(String(id), hidden ? { ...rest, hidden: true, hiddenBy: moderatorId, hiddenAt: new Date() } : rest);
+    return true;
+  }
+
+  async trash(ids: ObjectId[], deletedBy: string) {
+    const deletedAt = new Date();
+    return ids.filter((id) => {
+      const post = this.posts.get(String(id));
+      if (!post || post.deletedAt) return false;
+      this.posts.set(String(id), { ...post, deletedAt, deletedBy });
+      return true;
+    }).length;
+  }
+
+  async restore(ids: ObjectId[]) {
+    return ids.filter((id) => {
+      const post = this.posts.get(String(id));
+      if (!post?.deletedAt) return false;
+      this.posts.set(String(id), omit(post, 'deletedAt', 'deletedBy'));
+      return true;
+    }).length;
+  }
+
+  async deleteByIds(ids: ObjectId[]) {
+    return ids.filter((id) => this.posts.delete(String(id))).length;
+  }
+
+  async purgeTrashed(before: Date) {
+    const expired = [...this.posts.values()].filter((post) => post.deletedAt && post.deletedAt <= before);
+    for (const post of expired) this.posts.delete(String(post._id));
+    return expired.map((post) => post._id);
+  }
+}
+
+// ----------------- 게시글 수정 이력 -----------------
+export class MemoryPostRevisionRepository implements PostRevisionRepository {
+  private revisions: PostRevisionDoc[] = [];
+
+  private forPost(postId: ObjectId) {
+    return this.revisions.filter((doc) => doc.postId.equals(postId));
+  }
+
+  async append(input: NewPostRevision) {
+    const version = Math.max(0, ...this.forPost(input.postId).map((doc) => doc.version)) + 1;
+    const doc: PostRevisionDoc = { _id: new ObjectId(), ...input, version, createdAt: input.createdAt ?? new Date() };
+    this.revisions.push(doc);
+    return { ...doc };
+  }
+
+  async list(postId: ObjectId) {
+    return this.forPost(postId)
+      .sort((a, b) => b.version - a.version)
+      .map((doc) => omit(doc, 'content'));
+  }
+
+  async find(postId: ObjectId, version: number) {
+    const doc = this.forPost(postId).find((revision) => revision.version === version);
+    return doc ? { ...doc } : null;
+  }
+
+  async count(postId: ObjectId) {
+    return this.forPost(postId).length;
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    const before = this.revisions.length;
+    this.revisions = this.revisions.filter((doc) => !postIds.some((id) => id.equals(doc.postId)));
+    return before - this.revisions.length;
+  }
+}
+
+// ----------------- 반응 / 조회 -----------------
+export class MemoryPostReactionRepository implements PostReactionRepository {
+  private reactions: PostReactionDoc[] = [];
+
+  private matches(doc: PostReactionDoc, postId: ObjectId, userId: string) {
+    return doc.postId.equals(postId) && doc.userId === userId;
+  }
+
+  async add(postId: ObjectId, userId: string, emoji: Reaction) {
+    if (this.reactions.some((doc) => this.matches(doc, postId, userId) && doc.emoji === emoji)) return false;
+    this.reactions.push({ _id: new ObjectId(), postId, userId, emoji, createdAt: new Date() });
+    return true;
+  }
+
+  async remove(postId: ObjectId, userId: string, emoji: Reaction) {
+    const before = this.reactions.length;
+    this.reactions = this.reactions.filter((doc) => !(this.matches(doc, postId, userId) && doc.emoji === emoji));
+    return this.reactions.length < before;
+  }
+
+  async listByUser(postId: ObjectId, userId: string) {
+    return this.reactions.filter((doc) => this.matches(doc, postId, userId)).map((doc) => doc.emoji);
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    const before = this.reactions.length;
+    this.reactions = this.reactions.filter((doc) => !postIds.some((id) => id.equals(doc.postId)));
+    return before - this.reactions.length;
+  }
+}
+
+export class MemoryPostViewRepository implements PostViewRepository {
+  // postId → 본 사람 viewerKey
+  private views = new Map<string, Set<string>>();
+
+  async record(postId: ObjectId, viewerKey: string) {
+    const viewers = this.views.get(String(postId)) ?? new Set<string>();
+    this.views.set(String(postId), viewers);
+    if (viewers.has(viewerKey)) return false;
+    viewers.add(viewerKey);
+    return true;
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    let count = 0;
+    for (const id of postIds) {
+      count += this.views.get(String(id))?.size ?? 0;
+      this.views.delete(String(id));
+    }
+    return count;
+  }
+}
+
+// ----------------- 첨부 파일 -----------------
+export class MemoryAttachmentRepository implements AttachmentRepository {
+  private attachments: AttachmentDoc[] = [];
+
+  async create(input: NewAttachment) {
+    const doc: AttachmentDoc = { ...input, createdAt: new Date() };
+    this.attachments.push(doc);
+    return { ...doc };
+  }
+
+  async listByPost(postId: ObjectId) {
+    return this.attachments.filter((doc) => doc.postId.equals(postId)).map((doc) => ({ ...doc }));
+  }
+
+  async find(postId: ObjectId, id: ObjectId) {
+    const doc = this.attachments.find((attachment) => attachment._id.equals(id) && attachment.postId.equals(postId));
+    return doc ? { ...doc } : null;
+  }
+
+  async delete(id: ObjectId) {
+    const before = this.attachments.length;
+    this.attachments = this.attachments.filter((doc) => !doc._id.equals(id));
+    return this.attachments.length < before;
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    const removed = this.attachments.filter((doc) => postIds.some((id) => id.equals(doc.postId)));
+    this.attachments = this.attachments.filter((doc) => !removed.includes(doc));
+    return removed;
+  }
+}
+
+// ----------------- 댓글 -----------------
+export class MemoryCommentRepository implements CommentRepository {
+  private comments: CommentDoc[] = [];
+
+  async listByPost(postId: ObjectId) {
+    return this.comments
+      .filter((doc) => doc.postId.equals(postId))
+      .sort(compareByCreatedAt)
+      .map((doc) => ({ ...doc }));
+  }
+
+  async find(postId: ObjectId, id: ObjectId) {
+    const doc = this.comments.find((comment) => comment._id.equals(id) && comment.postId.equals(postId));
+    return doc ? { ...doc } : null;
+  }
+
+  async create(input: NewComment) {
+    const now = new Date();
+    const doc: CommentDoc = { _id: new ObjectId(), ...input, createdAt: now, updatedAt: now };
+    this.comments.push(doc);
+    return { ...doc };
+  }
+
+  async updateContent(id: ObjectId, content: string) {
+    const doc = this.comments.find((comment) => comment._id.equals(id));
+    if (!doc) return false;
+    Object.assign(doc, { content, updatedAt: new Date() });
+    return true;
+  }
+
+  async deleteWithReplies(id: ObjectId) {
+    const before = this.comments.length;
+    this.comments = this.comments.filter((doc) => !doc._id.equals(id) && !doc.parentId?.equals(id));
+    return before - this.comments.length;
+  }
+
+  async countByPosts(postIds: ObjectId[]) {
+    const counts = new Map<string, number>();
+    for (const doc of this.comments) {
+      if (!postIds.some((id) => id.equals(doc.postId))) continue;
+      counts.set(String(doc.postId), (counts.get(String(doc.postId)) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    const before = this.comments.length;
+    this.comments = this.comments.filter((doc) => !postIds.some((id) => id.equals(doc.postId)));
+    return before - this.comments.length;
+  }
+}
+
+// ----------------- 세션 -----------------
+export class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, SessionDoc>();
+
+  private isActive(doc: SessionDoc) {
+    return !doc.revokedAt && doc.expiresAt.getTime() > Date.now();
+  }
+
+  async create(doc: SessionDoc) {
+    this.sessions.set(doc._id, { ...doc });
+  }
+
+  async findActive(id: string) {
+    const doc = this.sessions.get(id);
+    return doc && this.isActive(doc) ? { ...doc } : null;
+  }
+
+  async rotate(id: string, currentHash: string, rotation: SessionRotation) {
+    const doc = this.sessions.get(id);
+    if (!doc || doc.refreshTokenHash !== currentHash) return null;
+    Object.assign(doc, rotation);
+    return { ...doc };
+  }
+
+  async listActive(userId: string) {
+    return [...this.sessions.values()]
+      .filter((doc) => doc.userId === userId && this.isActive(doc))
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map((doc) => omit(doc, 'refreshTokenHash', 'previousRefreshTokenHash'));
+  }
+
+  async revoke(userId: string, id: string) {
+    const doc = this.sessions.get(id);
+    if (!doc || doc.userId !== userId || doc.revokedAt) return false;
+    doc.revokedAt = new Date();
+    return true;
+  }
+
+  async revokeAll(userId: string) {
+    let count = 0;
+    for (const doc of this.sessions.values()) {
+      if (doc.userId !== userId || doc.revokedAt) continue;
+      doc.revokedAt = new Date();
+      count++;
+    }
+    return count;
+  }
+
+  async revokeByRefreshHash(id: string, refreshTokenHash: string) {
+    const doc = this.sessions.get(id);
+    if (!doc || doc.refreshTokenHash !== refreshTokenHash || doc.revokedAt) return false;
+    doc.revokedAt = new Date();
+    return true;
+  }
+}
+
+// ----------------- 일회용 토큰 -----------------
+export class MemoryOneTimeTokenRepository implements OneTimeTokenRepository {
+  private tokens: OneTimeTokenDoc[] = [];
+
+  async replace(doc: OneTimeTokenDoc) {
+    for (const token of this.tokens) {
+      if (token.userId === doc.userId && token.purpose === doc.purpose && !token.usedAt) token.usedAt = doc.createdAt;
+    }
+    this.tokens.push({ ...doc });
+  }
+
+  async consume(tokenHash: string, purpose: TokenPurpose) {
+    const token = this.tokens.find(
+      (doc) => doc.tokenHash === tokenHash && doc.purpose === purpose && !doc.usedAt && doc.expiresAt.getTime() > Date.now()
+    );
+    if (!token) return null;
+    token.usedAt = new Date();
+    return token.userId;
+  }
+}
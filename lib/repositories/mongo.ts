@@ -0,0 +1,591 @@
+import { Collection, Document, Filter, MongoServerError, ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/database';
+import { cursorFilter, cursorSort, toPage } from '@/lib/pagination';
+import { encodeScoreCursor, ScoreCursor } from '@/lib/search';
+import { ensurePostIndexes } from '@/lib/posts';
+import { Reaction } from '@/lib/reactions';
+import {
+  AttachmentDoc,
+  AttachmentRepository,
+  CommentDoc,
+  CommentRepository,
+  NewComment,
+  OneTimeTokenDoc,
+  OneTimeTokenRepository,
+  SessionDoc,
+  SessionRepository,
+  SessionRotation,
+  TokenPurpose,
+  NewAttachment,
+  NewPost,
+  NewPostRevision,
+  NewUser,
+  PageParams,
+  PostDoc,
+  PostListFilter,
+  PostPatch,
+  PostReactionDoc,
+  PostReactionRepository,
+  PostRepository,
+  PostRevisionDoc,
+  PostRevisionRepository,
+  PostSearchHit,
+  PostSummary,
+  PostTarget,
+  PostViewRepository,
+  PublicUser,
+  TagCount,
+  UserDoc,
+  UserPatch,
+  UserRepository,
+} from '@/lib/repositories/types';
+
+// ----------------- 사용자 -----------------
+export class MongoUserRepository implements UserRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<UserDoc>('users');
+    this.indexes ??= collection.createIndex({ email: 1 }, { unique: true }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async findById(id: string) {
+    if (!ObjectId.isValid(id)) return null;
+    return (await this.collection()).findOne({ _id: new ObjectId(id) });
+  }
+
+  async findByEmail(email: string) {
+    return (await this.collection()).findOne({ email });
+  }
+
+  async create(input: NewUser) {
+    const users = await this.collection();
+    const now = new Date();
+    const doc: UserDoc = { _id: new ObjectId(), ...input, emailVerified: false, createdAt: now, updatedAt: now };
+    try {
+      await users.insertOne(doc);
+      return doc;
+    } catch (error) {
+      // 동시 가입은 unique 인덱스가 막음
+      if (error instanceof MongoServerError && error.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  async update(id: string, patch: UserPatch) {
+    if (!ObjectId.isValid(id)) return false;
+    const result = await (await this.collection()).updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { ...patch, updatedAt: new Date() } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async list(page: PageParams) {
+    const docs = await (await this.collection())
+      .find(cursorFilter(page.cursor, page.order) as Filter<UserDoc>, { projection: { password: 0 } })
+      .sort(cursorSort(page.order))
+      .limit(page.limit + 1)
+      .toArray();
+    return toPage(docs as PublicUser[], page.limit);
+  }
+}
+
+// ----------------- 게시글 -----------------
+function listFilter(filter: PostListFilter): Filter<Document> {
+  const query: Filter<Document> = {};
+  if (filter.hidden === 'only') query.hidden = true;
+  else if (filter.hidden !== 'any') query.hidden = { $ne: true };
+  if (filter.authorId) query.authorId = filter.authorId;
+  if (filter.tag) query.tags = filter.tag;
+  query.deletedAt = { $exists: !!filter.trashed };
+  if (filter.deletedBy) query.deletedBy = filter.deletedBy;
+
+  const createdAt: Record<string, Date> = {};
+  if (filter.from) createdAt.$gte = filter.from;
+  if (filter.to) createdAt.$lte = filter.to;
+  if (Object.keys(createdAt).length) query.createdAt = createdAt;
+  return query;
+}
+
+export class MongoPostRepository implements PostRepository {
+  private async collection(): Promise<Collection<PostDoc>> {
+    const posts = (await getDatabase()).collection<PostDoc>('posts');
+    await ensurePostIndexes(posts);
+    return posts;
+  }
+
+  async list(filter: PostListFilter, page: PageParams) {
+    const docs = await (await this.collection())
+      .find(
+        { $and: [listFilter(filter), cursorFilter(page.cursor, page.order, page.sortBy)] },
+        { projection: { content: 0, contentHtml: 0, contentHtmlVersion: 0 } }
+      )
+      .sort(cursorSort(page.order, page.sortBy))
+      .limit(page.limit + 1)
+      .toArray();
+    return toPage(docs as PostSummary[], page.limit, page.sortBy);
+  }
+
+  async search(query: string, limit: number, cursor: ScoreCursor | null) {
+    // textScore 내림차순, 같으면 _id 내림차순으로 커서 페이지네이션
+    const pipeline: Document[] = [
+      { $match: { $text: { $search: query }, hidden: { $ne: true }, deletedAt: { $exists: false } } },
+      { $addFields: { score: { $meta: 'textScore' } } },
+    ];
+    if (cursor) {
+      pipeline.push({
+        $match: {
+          $or: [
+            { score: { $lt: cursor.score } },
+            { score: cursor.score, _id: { $lt: cursor.id } },
+          ],
+        },
+      });
+    }
+    pipeline.push(
+      { $sort: { score: -1, _id: -1 } },
+      { $limit: limit + 1 },
+      { $project: { contentHtml: 0, contentHtmlVersion: 0 } }
+    );
+
+    const docs = await (await this.collection()).aggregate<PostSearchHit>(pipeline).toArray();
+    const items = docs.slice(0, limit);
+    const nextCursor = docs.length > limit ? encodeScoreCursor(items[items.length - 1]) : null;
+    return { items, nextCursor };
+  }
+
+  async findById(id: ObjectId, options: { includeTrashed?: boolean } = {}) {
+    return (await this.collection()).findOne(options.includeTrashed ? { _id: id } : { _id: id, deletedAt: { $exists: false } });
+  }
+
+  async findRefs(target: PostTarget) {
+    const filter: Filter<PostDoc> = target.ids?.length ? { _id: { $in: target.ids } } : { authorId: target.authorId };
+    filter.deletedAt = { $exists: !!target.trashed };
+    return (await this.collection()).find(filter, { projection: { _id: 1, authorId: 1, deletedBy: 1 } }).toArray();
+  }
+
+  async create(input: NewPost) {
+    const now = new Date();
+    const doc: PostDoc = { _id: new ObjectId(), ...input, viewCount: 0, reactionCount: 0, createdAt: now, updatedAt: now };
+    await (await this.collection()).insertOne(doc);
+    return doc;
+  }
+
+  async update(id: ObjectId, patch: PostPatch, options: { ifUpdatedAt?: Date } = {}) {
+    const filter: Filter<PostDoc> = { _id: id, deletedAt: { $exists: false } };
+    if (options.ifUpdatedAt) filter.updatedAt = options.ifUpdatedAt;
+    return (await this.collection()).findOneAndUpdate(
+      filter,
+      { $set: { ...patch, updatedAt: new Date() }, $unset: { contentHtml: '', contentHtmlVersion: '' } },
+      { returnDocument: 'after' }
+    );
+  }
+
+  // 조회수/반응 수는 내용 수정이 아니므로 updatedAt(ETag)은 바꾸지 않음
+  async incrementViewCount(id: ObjectId) {
+    await (await this.collection()).updateOne({ _id: id }, { $inc: { viewCount: 1 } });
+  }
+
+  async adjustReactionCount(id: ObjectId, emoji: Reaction, delta: 1 | -1) {
+    await (await this.collection()).updateOne({ _id: id }, { $inc: { reactionCount: delta, [`reactions.${emoji}`]: delta } });
+  }
+
+  async tagCounts(limit: number) {
+    return (await this.collection())
+      .aggregate<TagCount>([
+        { $match: { hidden: { $ne: true }, deletedAt: { $exists: false }, tags: { $exists: true, $ne: [] } } },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit },
+        { $project: { _id: 0, tag: '$_id', count: 1 } },
+      ])
+      .toArray();
+  }
+
+  async cacheContentHtml(id: ObjectId, rendered: { html: string; version: number }, ifUpdatedAt: Date) {
+    await (await this.collection()).updateOne(
+      { _id: id, updatedAt: ifUpdatedAt },
+      { $set: { contentHtml: rendered.html, contentHtmlVersion: rendered.version } }
+    );
+  }
+
+  async setHidden(id: ObjectId, hidden: boolean, moderatorId: string) {
+    const update = hidden
+      ? { $set: { hidden: true, hiddenBy: moderatorId, hiddenAt: new Date() } }
+      : { $unset: { hidden: '', hiddenBy: '', hiddenAt: '' } as const };
+    const result = await (await this.collection()).updateOne({ _id: id }, update);
+    return result.matchedCount > 0;
+  }
+
+  async trash(ids: ObjectId[], deletedBy: string) {
+    if (!ids.length) return 0;
+    const result = await (await this.collection()).updateMany(
+      { _id: { $in: ids }, deletedAt: { $exists: false } },
+      { $set: { deletedAt: new Date(), deletedBy } }
+    );
+    return result.modifiedCount;
+  }
+
+  async restore(ids: ObjectId[]) {
+    if (!ids.length) return 0;
+    const result = await (await this.collection()).updateMany(
+      { _id: { $in: ids }, deletedAt: { $exists: true } },
+      { $unset: { deletedAt: '', deletedBy: '' } }
+    );
+    return result.modifiedCount;
+  }
+
+  async deleteByIds(ids: ObjectId[]) {
+    if (!ids.length) return 0;
+    const result = await (await this.collection()).deleteMany({ _id: { $in: ids } });
+    return result.deletedCount;
+  }
+
+  async purgeTrashed(before: Date) {
+    const posts = await this.collection();
+    const expired = await posts.find({ deletedAt: { $lte: before } }, { projection: { _id: 1 } }).toArray();
+    const ids = expired.map((doc) => doc._id);
+    // 조회와 삭제 사이에 복원된 글은 남도록 조건을 다시 확인
+    if (ids.length) await posts.deleteMany({ _id: { $in: ids }, deletedAt: { $lte: before } });
+    return ids;
+  }
+}
+
+// ----------------- 게시글 수정 이력 -----------------
+export class MongoPostRevisionRepository implements PostRevisionRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<PostRevisionDoc>('post_revisions');
+    // 같은 버전 번호가 두 번 저장되지 않도록 unique
+    this.indexes ??= collection.createIndex({ postId: 1, version: -1 }, { unique: true }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async append(input: NewPostRevision) {
+    const revisions = await this.collection();
+    // 동시 수정으로 버전 번호가 겹치면 다시 계산
+    for (let attempt = 0; ; attempt++) {
+      const last = await revisions.findOne({ postId: input.postId }, { sort: { version: -1 }, projection: { version: 1 } });
+      const doc: PostRevisionDoc = {
+        _id: new ObjectId(),
+        ...input,
+        version: (last?.version ?? 0) + 1,
+        createdAt: input.createdAt ?? new Date(),
+      };
+      try {
+        await revisions.insertOne(doc);
+        return doc;
+      } catch (error) {
+        if (!(error instanceof MongoServerError && error.code === 11000) || attempt >= 2) throw error;
+      }
+    }
+  }
+
+  async list(postId: ObjectId) {
+    return (await this.collection()).find({ postId }, { projection: { content: 0 } }).sort({ version: -1 }).toArray();
+  }
+
+  async find(postId: ObjectId, version: number) {
+    return (await this.collection()).findOne({ postId, version });
+  }
+
+  async count(postId: ObjectId) {
+    return (await this.collection()).countDocuments({ postId });
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return 0;
+    const result = await (await this.collection()).deleteMany({ postId: { $in: postIds } });
+    return result.deletedCount;
+  }
+}
+
+// ----------------- 반응 / 조회 -----------------
+export class MongoPostReactionRepository implements PostReactionRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<PostReactionDoc>('post_reactions');
+    // 사용자당 같은 반응은 한 번만
+    this.indexes ??= collection.createIndex({ postId: 1, userId: 1, emoji: 1 }, { unique: true }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async add(postId: ObjectId, userId: string, emoji: Reaction) {
+    try {
+      await (await this.collection()).insertOne({ _id: new ObjectId(), postId, userId, emoji, createdAt: new Date() });
+      return true;
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async remove(postId: ObjectId, userId: string, emoji: Reaction) {
+    const result = await (await this.collection()).deleteOne({ postId, userId, emoji });
+    return result.deletedCount > 0;
+  }
+
+  async listByUser(postId: ObjectId, userId: string) {
+    const docs = await (await this.collection()).find({ postId, userId }, { projection: { emoji: 1 } }).toArray();
+    return docs.map((doc) => doc.emoji);
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return 0;
+    const result = await (await this.collection()).deleteMany({ postId: { $in: postIds } });
+    return result.deletedCount;
+  }
+}
+
+type PostViewDoc = { _id: ObjectId; postId: ObjectId; viewerKey: string; viewedAt: Date };
+
+export class MongoPostViewRepository implements PostViewRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<PostViewDoc>('post_views');
+    this.indexes ??= collection.createIndex({ postId: 1, viewerKey: 1 }, { unique: true }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async record(postId: ObjectId, viewerKey: string) {
+    try {
+      await (await this.collection()).insertOne({ _id: new ObjectId(), postId, viewerKey, viewedAt: new Date() });
+      return true;
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return 0;
+    const result = await (await this.collection()).deleteMany({ postId: { $in: postIds } });
+    return result.deletedCount;
+  }
+}
+
+// ----------------- 첨부 파일 -----------------
+export class MongoAttachmentRepository implements AttachmentRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<AttachmentDoc>('attachments');
+    this.indexes ??= collection.createIndex({ postId: 1, createdAt: 1 }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async create(input: NewAttachment) {
+    const doc: AttachmentDoc = { ...input, createdAt: new Date() };
+    await (await this.collection()).insertOne(doc);
+    return doc;
+  }
+
+  async listByPost(postId: ObjectId) {
+    return (await this.collection()).find({ postId }).sort({ createdAt: 1, _id: 1 }).toArray();
+  }
+
+  async find(postId: ObjectId, id: ObjectId) {
+    return (await this.collection()).findOne({ _id: id, postId });
+  }
+
+  async delete(id: ObjectId) {
+    const result = await (await this.collection()).deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return [];
+    const attachments = await this.collection();
+    const docs = await attachments.find({ postId: { $in: postIds } }).toArray();
+    if (docs.length) await attachments.deleteMany({ _id: { $in: docs.map((doc) => doc._id) } });
+    return docs;
+  }
+}
+
+// ----------------- 댓글 -----------------
+export class MongoCommentRepository implements CommentRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<CommentDoc>('comments');
+    this.indexes ??= collection.createIndex({ postId: 1, createdAt: 1 }).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async listByPost(postId: ObjectId) {
+    return (await this.collection()).find({ postId }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async find(postId: ObjectId, id: ObjectId) {
+    return (await this.collection()).findOne({ _id: id, postId });
+  }
+
+  async create(input: NewComment) {
+    const now = new Date();
+    const doc: CommentDoc = { _id: new ObjectId(), ...input, createdAt: now, updatedAt: now };
+    await (await this.collection()).insertOne(doc);
+    return doc;
+  }
+
+  async updateContent(id: ObjectId, content: string) {
+    const result = await (await this.collection()).updateOne({ _id: id }, { $set: { content, updatedAt: new Date() } });
+    return result.matchedCount > 0;
+  }
+
+  async deleteWithReplies(id: ObjectId) {
+    const result = await (await this.collection()).deleteMany({ $or: [{ _id: id }, { parentId: id }] });
+    return result.deletedCount;
+  }
+
+  async countByPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return new Map<string, number>();
+    const rows = await (await this.collection())
+      .aggregate<Document>([
+        { $match: { postId: { $in: postIds } } },
+        { $group: { _id: '$postId', count: { $sum: 1 } } },
+      ])
+      .toArray();
+    return new Map(rows.map((row) => [String(row._id), row.count as number]));
+  }
+
+  async deleteForPosts(postIds: ObjectId[]) {
+    if (!postIds.length) return 0;
+    const result = await (await this.collection()).deleteMany({ postId: { $in: postIds } });
+    return result.deletedCount;
+  }
+}
+
+// ----------------- 세션 -----------------
+export class MongoSessionRepository implements SessionRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<SessionDoc>('sessions');
+    this.indexes ??= Promise.all([
+      collection.createIndex({ userId: 1, lastUsedAt: -1 }),
+      // 만료된 세션은 MongoDB TTL 인덱스가 자동 삭제
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async create(doc: SessionDoc) {
+    await (await this.collection()).insertOne(doc);
+  }
+
+  async findActive(id: string) {
+    return (await this.collection()).findOne({ _id: id, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } });
+  }
+
+  async rotate(id: string, currentHash: string, rotation: SessionRotation) {
+    return (await this.collection()).findOneAndUpdate(
+      { _id: id, refreshTokenHash: currentHash },
+      { $set: rotation },
+      { returnDocument: 'after' }
+    );
+  }
+
+  async listActive(userId: string) {
+    return (await this.collection())
+      .find(
+        { userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+        { projection: { refreshTokenHash: 0, previousRefreshTokenHash: 0 } }
+      )
+      .sort({ lastUsedAt: -1 })
+      .toArray();
+  }
+
+  async revoke(userId: string, id: string) {
+    const result = await (await this.collection()).updateOne(
+      { _id: id, userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async revokeAll(userId: string) {
+    const result = await (await this.collection()).updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+  }
+
+  async revokeByRefreshHash(id: string, refreshTokenHash: string) {
+    const result = await (await this.collection()).updateOne(
+      { _id: id, refreshTokenHash, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+}
+
+// ----------------- 일회용 토큰 -----------------
+export class MongoOneTimeTokenRepository implements OneTimeTokenRepository {
+  private indexes: Promise<unknown> | null = null;
+
+  private async collection() {
+    const collection = (await getDatabase()).collection<OneTimeTokenDoc>('one_time_tokens');
+    this.indexes ??= Promise.all([
+      collection.createIndex({ tokenHash: 1 }, { unique: true }),
+      // 만료된 토큰은 TTL 인덱스가 자동 삭제
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      this.indexes = null;
+      throw error;
+    });
+    await this.indexes;
+    return collection;
+  }
+
+  async replace(doc: OneTimeTokenDoc) {
+    const tokens = await this.collection();
+    await tokens.updateMany(
+      { userId: doc.userId, purpose: doc.purpose, usedAt: { $exists: false } },
+      { $set: { usedAt: doc.createdAt } }
+    );
+    await tokens.insertOne(doc);
+  }
+
+  async consume(tokenHash: string, purpose: TokenPurpose) {
+    const doc = await (await this.collection()).findOneAndUpdate(
+      { tokenHash, purpose, usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } }
+    );
+    return doc ? doc.userId : null;
+  }
+}
@@ -0,0 +1,299 @@
+import { ObjectId } from 'mongodb';
+import { Cursor, SortOrder } from '@/lib/pagination';
+import { ScoreCursor } from '@/lib/search';
+import { Role } from '@/lib/policy';
+import { Reaction } from '@/lib/reactions';
+
+// ----------------- 공통 -----------------
+// sortBy: 정렬할 숫자 필드 (없으면 createdAt 순)
+export type PageParams = { limit: number; order: SortOrder; cursor: Cursor | null; sortBy?: string };
+
+export type Page<T> = { items: T[]; nextCursor: string | null };
+
+// ----------------- 사용자 -----------------
+export type UserDoc = {
+  _id: ObjectId;
+  email: string;
+  password: string; // bcrypt 해시
+  role?: Role;
+  disabled?: boolean;
+  // 이메일 인증 기능 도입 전 가입자는 필드가 없음
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type PublicUser = Omit<UserDoc, 'password'>;
+
+export type NewUser = Pick<UserDoc, 'email' | 'password'>;
+
+export type UserPatch = Partial<Pick<UserDoc, 'role' | 'disabled' | 'password' | 'emailVerified' | 'emailVerifiedAt'>>;
+
+export interface UserRepository {
+  findById(id: string): Promise<UserDoc | null>;
+  findByEmail(email: string): Promise<UserDoc | null>;
+  /** 이메일이 이미 있으면 null (동시 가입도 막아야 함, Mongo는 users.email unique 인덱스) */
+  create(input: NewUser): Promise<UserDoc | null>;
+  /** 대상이 없으면 false */
+  update(id: string, patch: UserPatch): Promise<boolean>;
+  list(page: PageParams): Promise<Page<PublicUser>>;
+}
+
+// ----------------- 게시글 -----------------
+export type PostDoc = {
+  _id: ObjectId;
+  title: string;
+  // Markdown 원문
+  content: string;
+  // 렌더링된 HTML 캐시 (본문이 바뀌면 지워지고 조회 때 다시 생성)
+  contentHtml?: string;
+  contentHtmlVersion?: number;
+  authorId: string;
+  authorEmail?: string;
+  // 정규화된 소문자 slug (태그 기능 도입 전 글에는 없음)
+  tags?: string[];
+  // 중복 제거된 조회수와 반응 수 (목록 정렬용으로 글에 함께 저장)
+  viewCount?: number;
+  reactionCount?: number;
+  reactions?: Partial<Record<Reaction, number>>;
+  // 모더레이터가 숨긴 게시글
+  hidden?: boolean;
+  hiddenBy?: string;
+  hiddenAt?: Date;
+  // 휴지통으로 옮긴 시각 (보관 기간이 지나면 영구 삭제)
+  deletedAt?: Date;
+  deletedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// 목록 응답에는 본문을 싣지 않음
+export type PostSummary = Omit<PostDoc, 'content' | 'contentHtml' | 'contentHtmlVersion'>;
+
+export type NewPost = Pick<PostDoc, 'title' | 'content' | 'authorId' | 'authorEmail' | 'tags'>;
+
+export type PostPatch = Pick<PostDoc, 'title' | 'content'> & { tags?: string[] };
+
+export type PostListFilter = {
+  authorId?: string;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+  // exclude: 숨김 제외 (기본), only: 숨김만, any: 모두
+  hidden?: 'exclude' | 'only' | 'any';
+  // true이면 휴지통의 글만, 아니면 휴지통의 글 제외
+  trashed?: boolean;
+  // 휴지통으로 옮긴 사용자
+  deletedBy?: string;
+};
+
+export type PostSearchHit = Omit<PostDoc, 'contentHtml' | 'contentHtmlVersion'> & { score: number };
+
+export type TagCount = { tag: string; count: number };
+
+// 일괄 처리 대상: ids가 있으면 해당 글, 없으면 authorId의 글 전체
+// trashed가 true이면 휴지통의 글만, 아니면 휴지통의 글 제외
+export type PostTarget = { ids?: ObjectId[]; authorId?: string; trashed?: boolean };
+
+export interface PostRepository {
+  list(filter: PostListFilter, page: PageParams): Promise<Page<PostSummary>>;
+  /** 관련도(score) 내림차순, 숨김/휴지통 게시글 제외 */
+  search(query: string, limit: number, cursor: ScoreCursor | null): Promise<Page<PostSearchHit>>;
+  /** 휴지통의 글은 includeTrashed가 true일 때만 */
+  findById(id: ObjectId, options?: { includeTrashed?: boolean }): Promise<PostDoc | null>;
+  /** 권한 확인용으로 _id/authorId만 조회 */
+  findRefs(target: PostTarget): Promise<Pick<PostDoc, '_id' | 'authorId' | 'deletedBy'>[]>;
+  create(input: NewPost): Promise<PostDoc>;
+  /** ifUpdatedAt이 있으면 updatedAt이 같을 때만 수정, 수정하지 못하면 null */
+  update(id: ObjectId, patch: PostPatch, options?: { ifUpdatedAt?: Date }): Promise<PostDoc | null>;
+  incrementViewCount(id: ObjectId): Promise<void>;
+  /** 반응별 수와 전체 반응 수를 함께 증감 */
+  adjustReactionCount(id: ObjectId, emoji: Reaction, delta: 1 | -1): Promise<void>;
+  /** 숨김/휴지통 게시글을 제외한 태그별 게시글 수 (많은 순) */
+  tagCounts(limit: number): Promise<TagCount[]>;
+  /** updatedAt이 같을 때만 렌더링된 HTML 저장 (updatedAt은 바꾸지 않음) */
+  cacheContentHtml(id: ObjectId, rendered: { html: string; version: number }, ifUpdatedAt: Date): Promise<void>;
+  setHidden(id: ObjectId, hidden: boolean, moderatorId: string): Promise<boolean>;
+  /** 휴지통으로 옮긴 개수 */
+  trash(ids: ObjectId[], deletedBy: string): Promise<number>;
+  /** 휴지통에서 복원한 개수 */
+  restore(ids: ObjectId[]): Promise<number>;
+  /** 영구 삭제된 개수 */
+  deleteByIds(ids: ObjectId[]): Promise<number>;
+  /** before 이전에 휴지통으로 옮긴 글을 영구 삭제하고 _id 목록 반환 */
+  purgeTrashed(before: Date): Promise<ObjectId[]>;
+}
+
+// ----------------- 게시글 수정 이력 -----------------
+export type PostRevisionDoc = {
+  _id: ObjectId;
+  postId: ObjectId;
+  // 게시글마다 1부터 증가
+  version: number;
+  title: string;
+  content: string;
+  editorId: string;
+  // 이전 버전을 복원해서 만든 버전이면 원본 버전 번호
+  restoredFrom?: number;
+  createdAt: Date;
+};
+
+export type NewPostRevision = Pick<PostRevisionDoc, 'postId' | 'title' | 'content' | 'editorId' | 'restoredFrom'> & {
+  createdAt?: Date;
+};
+
+export type PostRevisionSummary = Omit<PostRevisionDoc, 'content'>;
+
+export interface PostRevisionRepository {
+  /** 다음 버전 번호를 붙여 저장 */
+  append(input: NewPostRevision): Promise<PostRevisionDoc>;
+  /** 최신 버전부터 */
+  list(postId: ObjectId): Promise<PostRevisionSummary[]>;
+  find(postId: ObjectId, version: number): Promise<PostRevisionDoc | null>;
+  count(postId: ObjectId): Promise<number>;
+  deleteForPosts(postIds: ObjectId[]): Promise<number>;
+}
+
+// ----------------- 반응 / 조회 -----------------
+export type PostReactionDoc = {
+  _id: ObjectId;
+  postId: ObjectId;
+  userId: string;
+  emoji: Reaction;
+  createdAt: Date;
+};
+
+export interface PostReactionRepository {
+  /** 새로 추가했으면 true, 이미 있으면 false */
+  add(postId: ObjectId, userId: string, emoji: Reaction): Promise<boolean>;
+  /** 지웠으면 true, 없었으면 false */
+  remove(postId: ObjectId, userId: string, emoji: Reaction): Promise<boolean>;
+  listByUser(postId: ObjectId, userId: string): Promise<Reaction[]>;
+  deleteForPosts(postIds: ObjectId[]): Promise<number>;
+}
+
+export interface PostViewRepository {
+  /** 처음 본 경우에만 true (viewerKey: 사용자/IP 해시) */
+  record(postId: ObjectId, viewerKey: string): Promise<boolean>;
+  deleteForPosts(postIds: ObjectId[]): Promise<number>;
+}
+
+// ----------------- 첨부 파일 -----------------
+export type AttachmentDoc = {
+  _id: ObjectId;
+  postId: ObjectId;
+  filename: string;
+  contentType: string;
+  size: number;
+  // 저장소 드라이버 안에서의 위치
+  storageKey: string;
+  // 이미지인 경우에만
+  thumbnailKey?: string;
+  uploaderId: string;
+  createdAt: Date;
+};
+
+export type NewAttachment = Omit<AttachmentDoc, 'createdAt'>;
+
+export interface AttachmentRepository {
+  create(input: NewAttachment): Promise<AttachmentDoc>;
+  /** 올린 순서대로 */
+  listByPost(postId: ObjectId): Promise<AttachmentDoc[]>;
+  find(postId: ObjectId, id: ObjectId): Promise<AttachmentDoc | null>;
+  delete(id: ObjectId): Promise<boolean>;
+  /** 삭제한 문서 반환 (저장소 파일 정리용) */
+  deleteForPosts(postIds: ObjectId[]): Promise<AttachmentDoc[]>;
+}
+
+// ----------------- 댓글 -----------------
+export type CommentDoc = {
+  _id: ObjectId;
+  postId: ObjectId;
+  // 답글이면 상위 댓글 _id, 최상위 댓글이면 null (답글은 한 단계만 허용)
+  parentId: ObjectId | null;
+  content: string;
+  authorId: string;
+  authorEmail: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type NewComment = Omit<CommentDoc, '_id' | 'createdAt' | 'updatedAt'>;
+
+export interface CommentRepository {
+  /** 작성 순서대로 */
+  listByPost(postId: ObjectId): Promise<CommentDoc[]>;
+  find(postId: ObjectId, id: ObjectId): Promise<CommentDoc | null>;
+  create(input: NewComment): Promise<CommentDoc>;
+  updateContent(id: ObjectId, content: string): Promise<boolean>;
+  /** 최상위 댓글이면 답글도 함께 삭제, 삭제한 개수 반환 */
+  deleteWithReplies(id: ObjectId): Promise<number>;
+  /** postId(문자열) → 댓글 수 */
+  countByPosts(postIds: ObjectId[]): Promise<Map<string, number>>;
+  deleteForPosts(postIds: ObjectId[]): Promise<number>;
+}
+
+// ----------------- 세션 -----------------
+export type SessionDoc = {
+  _id: string; // access 토큰의 jti 클레임
+  userId: string;
+  email: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  rotatedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+};
+
+export type SessionSummary = Omit<SessionDoc, 'refreshTokenHash' | 'previousRefreshTokenHash'>;
+
+export type SessionRotation = Required<Pick<SessionDoc, 'refreshTokenHash' | 'previousRefreshTokenHash' | 'rotatedAt' | 'lastUsedAt'>>;
+
+export interface SessionRepository {
+  create(doc: SessionDoc): Promise<void>;
+  /** 폐기/만료되지 않은 세션만 */
+  findActive(id: string): Promise<SessionDoc | null>;
+  /** refresh 토큰 해시가 그대로일 때만 갱신 (동시에 다른 요청이 먼저 회전시켰으면 null) */
+  rotate(id: string, currentHash: string, rotation: SessionRotation): Promise<SessionDoc | null>;
+  /** 최근 사용 순 */
+  listActive(userId: string): Promise<SessionSummary[]>;
+  revoke(userId: string, id: string): Promise<boolean>;
+  revokeAll(userId: string): Promise<number>;
+  revokeByRefreshHash(id: string, refreshTokenHash: string): Promise<boolean>;
+}
+
+// ----------------- 일회용 토큰 -----------------
+export type TokenPurpose = 'password_reset' | 'email_verification';
+
+export type OneTimeTokenDoc = {
+  tokenHash: string;
+  purpose: TokenPurpose;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+};
+
+export interface OneTimeTokenRepository {
+  /** 같은 용도의 이전 미사용 토큰을 무효화하고 저장 */
+  replace(doc: OneTimeTokenDoc): Promise<void>;
+  /** 유효하면 사용 처리 후 userId (원자적으로 한 번만 성공), 아니면 null */
+  consume(tokenHash: string, purpose: TokenPurpose): Promise<string | null>;
+}
+
+export type Repositories = {
+  users: UserRepository;
+  posts: PostRepository;
+  revisions: PostRevisionRepository;
+  attachments: AttachmentRepository;
+  reactions: PostReactionRepository;
+  views: PostViewRepository;
+  comments: CommentRepository;
+  sessions: SessionRepository;
+  tokens: OneTimeTokenRepository;
+};
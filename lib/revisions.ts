@@ -0,0 +1,131 @@
+import { getRepositories, PostDoc, PostRevisionDoc } from '@/lib/repositories';
+
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+// 편집 거리(추가/삭제된 줄 수)가 이보다 크면 통째로 교체된 것으로 표시
+// Myers 알고리즘의 되짚기 기록이 편집 거리의 제곱에 비례하므로 메모리를 이 범위로 제한 (최대 약 4MB)
+const MAX_EDIT_DISTANCE = 1000;
+
+// 버전 내용은 바뀌지 않으므로 같은 두 버전의 비교 결과를 이 개수만큼 재사용
+const DIFF_CACHE_SIZE = 100;
+
+const same = (text: string): DiffLine => ({ type: 'same', text });
+
+/**
+ * 줄 단위 diff (Myers 알고리즘)
+ * 앞뒤의 같은 줄은 비교에서 빼고, 가운데가 너무 많이 바뀌었으면 통째로 교체로 표시
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const removed = a.slice(start, endA);
+  const added = b.slice(start, endB);
+  const middle = shortestEdit(removed, added) ?? [
+    ...removed.map((text) => ({ type: 'removed' as const, text })),
+    ...added.map((text) => ({ type: 'added' as const, text })),
+  ];
+  return [...a.slice(0, start).map(same), ...middle, ...a.slice(endA).map(same)];
+}
+
+/**
+ * 최소 편집 경로 (편집 거리가 MAX_EDIT_DISTANCE를 넘으면 null)
+ */
+function shortestEdit(a: string[], b: string[]): DiffLine[] | null {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  // v[k + offset]: 대각선 k(x - y)에서 도달한 가장 먼 x
+  const v = new Int32Array(2 * max + 3);
+  // trace[d]: d번째 단계 직전의 v (대각선 -d..d만 보관)
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) return backtrack(trace, a, b);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]) {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push(same(a[--x]));
+      y--;
+    }
+    if (x === prevX) lines.push({ type: 'added', text: b[--y] });
+    else lines.push({ type: 'removed', text: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    lines.push(same(a[--x]));
+    y--;
+  }
+  return lines.reverse();
+}
+
+type RevisionDiff = { title: DiffLine[]; content: DiffLine[] };
+
+const diffCache = new Map<string, RevisionDiff>();
+
+/**
+ * 두 버전의 제목/내용 비교 (최근 결과는 메모리에 보관)
+ */
+export function diffRevisions(before: PostRevisionDoc, after: PostRevisionDoc): RevisionDiff {
+  const key = `${before._id}:${after._id}`;
+  const cached = diffCache.get(key);
+  if (cached) {
+    // 최근에 쓴 항목이 뒤로 가도록 다시 넣음
+    diffCache.delete(key);
+    diffCache.set(key, cached);
+    return cached;
+  }
+
+  const diff = { title: diffLines(before.title, after.title), content: diffLines(before.content, after.content) };
+  diffCache.set(key, diff);
+  if (diffCache.size > DIFF_CACHE_SIZE) diffCache.delete(diffCache.keys().next().value!);
+  return diff;
+}
+
+/**
+ * 게시글 수정 전에 호출
+ * 이력 기능 도입 전에 작성된 글은 현재 내용을 1번 버전으로 먼저 저장
+ */
+export async function ensureBaseRevision(post: PostDoc) {
+  const { revisions } = getRepositories();
+  if (await revisions.count(post._id)) return;
+  await revisions.append({
+    postId: post._id,
+    title: post.title,
+    content: post.content,
+    editorId: post.authorId,
+    createdAt: post.updatedAt,
+  });
+}
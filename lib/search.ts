@@ -0,0 +1,66 @@
+import { ObjectId } from 'mongodb';
+
+// 강조 표시용 조각: match가 true인 부분이 검색어와 일치
+export type Highlight = { text: string; match: boolean }[];
+
+export type ScoreCursor = { score: number; id: ObjectId };
+
+const SNIPPET_RADIUS = 80;
+
+/**
+ * 검색 결과 커서 (textScore/_id 쌍) 인코딩
+ */
+export function encodeScoreCursor(doc: { score: number; _id: ObjectId }): string {
+  return Buffer.from(JSON.stringify({ s: doc.score, i: String(doc._id) })).toString('base64url');
+}
+
+export function decodeScoreCursor(value: string): ScoreCursor | null {
+  try {
+    const { s, i } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof s !== 'number' || !ObjectId.isValid(i)) return null;
+    return { score: s, id: new ObjectId(i) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * $text 검색어에서 강조할 단어 추출 (따옴표, 제외어(-) 제거)
+ */
+export function extractTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith('-'))
+    .map((term) => term.replace(/"/g, ''))
+    .filter(Boolean);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 텍스트를 검색어 일치/불일치 조각으로 분리
+ */
+export function highlight(text: string, terms: string[]): Highlight {
+  if (!terms.length || !text) return [{ text, match: false }];
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.some((term) => term.toLowerCase() === part.toLowerCase()) }));
+}
+
+/**
+ * 본문에서 첫 번째 일치 지점 주변만 잘라 강조 조각으로 반환
+ */
+export function buildSnippet(content: string, terms: string[]): Highlight {
+  const lower = content.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term.toLowerCase())).filter((pos) => pos >= 0);
+  const first = positions.length ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(content.length, first + SNIPPET_RADIUS);
+  const excerpt = `${start > 0 ? '…' : ''}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+  return highlight(excerpt, terms);
+}
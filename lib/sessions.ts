@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { getRepositories, SessionDoc } from '@/lib/repositories';
+
+export type { SessionDoc };
+
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+// 동시에 두 탭이 같은 refresh 토큰으로 갱신하는 경우를 재사용 공격으로 오인하지 않기 위한 유예 시간
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export type RefreshResult =
+  | { status: 'ok'; session: SessionDoc; refreshToken?: string }
+  | { status: 'invalid' }
+  | { status: 'reused'; session: SessionDoc };
+
+function hashToken(secret: string) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * refresh 토큰은 "<jti>.<secret>" 형식이며 DB에는 secret의 해시만 저장
+ */
+function splitRefreshToken(token: string) {
+  const index = token.indexOf('.');
+  if (index <= 0) return null;
+  return { jti: token.slice(0, index), secret: token.slice(index + 1) };
+}
+
+/**
+ * 로그인 시 새 세션 생성
+ */
+export async function createSession(
+  user: { id: string; email: string },
+  meta: { userAgent?: string; ip?: string }
+) {
+  const jti = crypto.randomUUID();
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await getRepositories().sessions.create({
+    _id: jti,
+    userId: user.id,
+    email: user.email,
+    refreshTokenHash: hashToken(secret),
+    userAgent: meta.userAgent,
+    ip: meta.ip,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  });
+
+  return { jti, refreshToken: `${jti}.${secret}` };
+}
+
+/**
+ * jti에 해당하는 세션이 유효한지 확인 (폐기/만료되지 않음)
+ */
+export async function findActiveSession(jti: string) {
+  return getRepositories().sessions.findActive(jti);
+}
+
+/**
+ * refresh 토큰 검증 및 회전
+ * - 정상: 새 refresh 토큰 발급 (이전 토큰은 무효화)
+ * - 직전 토큰이 유예 시간 안에 다시 사용됨: 새 토큰 없이 통과
+ * - 그 외 불일치: 탈취된 토큰 재사용으로 보고 세션 폐기
+ */
+export async function rotateRefreshToken(token: string): Promise<RefreshResult> {
+  const parts = splitRefreshToken(token);
+  if (!parts) return { status: 'invalid' };
+
+  const session = await findActiveSession(parts.jti);
+  if (!session) return { status: 'invalid' };
+
+  const hash = hashToken(parts.secret);
+  const now = new Date();
+
+  if (hash === session.refreshTokenHash) {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const result = await getRepositories().sessions.rotate(session._id, hash, {
+      refreshTokenHash: hashToken(secret),
+      previousRefreshTokenHash: hash,
+      rotatedAt: now,
+      lastUsedAt: now,
+    });
+    // 동시에 다른 요청이 먼저 회전시킨 경우
+    if (!result) return { status: 'ok', session };
+    return { status: 'ok', session: result, refreshToken: `${session._id}.${secret}` };
+  }
+
+  const withinGrace =
+    hash === session.previousRefreshTokenHash &&
+    !!session.rotatedAt &&
+    now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+  if (withinGrace) return { status: 'ok', session };
+
+  await revokeSession(session.userId, session._id);
+  return { status: 'reused', session };
+}
+
+/**
+ * 사용자의 활성 세션(기기) 목록
+ */
+export async function listActiveSessions(userId: string) {
+  return getRepositories().sessions.listActive(userId);
+}
+
+/**
+ * 세션 하나 폐기 (본인 세션만)
+ */
+export async function revokeSession(userId: string, jti: string) {
+  return getRepositories().sessions.revoke(userId, jti);
+}
+
+/**
+ * 사용자의 모든 세션 폐기
+ */
+export async function revokeAllSessions(userId: string) {
+  return getRepositories().sessions.revokeAll(userId);
+}
+
+/**
+ * refresh 토큰으로 세션 폐기 (access 토큰이 이미 만료된 상태의 로그아웃)
+ */
+export async function revokeByRefreshToken(token: string) {
+  const parts = splitRefreshToken(token);
+  if (!parts) return false;
+  return getRepositories().sessions.revokeByRefreshHash(parts.jti, hashToken(parts.secret));
+}
@@ -0,0 +1,60 @@
+export type ShutdownHook = () => Promise<unknown>;
+
+type ShutdownState = {
+  hooks: Map<string, ShutdownHook>;
+  installed: boolean;
+  running: Promise<void> | null;
+};
+
+declare global {
+  var _shutdown: ShutdownState | undefined;
+}
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 종료 시 정리 작업 전체를 기다리는 최대 시간
+const SHUTDOWN_TIMEOUT_MS = numberFromEnv('SHUTDOWN_TIMEOUT_MS', 5000);
+
+// 개발 서버 재로딩 시 신호 처리기가 중복 등록되지 않도록 전역에 보관
+const state: ShutdownState = (global._shutdown ??= { hooks: new Map(), installed: false, running: null });
+
+/**
+ * 등록된 정리 작업을 모두 실행하고 끝날 때까지 기다림 (SHUTDOWN_TIMEOUT_MS를 넘으면 포기)
+ * 여러 번 호출해도 한 번만 실행
+ */
+export function runShutdownHooks(): Promise<void> {
+  state.running ??= (async () => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, SHUTDOWN_TIMEOUT_MS);
+    });
+    const hooks = Promise.allSettled([...state.hooks.values()].map((hook) => hook())).then(() => undefined);
+    await Promise.race([hooks, timeout]);
+    clearTimeout(timer);
+  })();
+  return state.running;
+}
+
+function install() {
+  if (state.installed) return;
+  state.installed = true;
+
+  process.once('beforeExit', () => void runShutdownHooks());
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      void runShutdownHooks().finally(() => process.exit(signal === 'SIGINT' ? 130 : 143));
+    });
+  }
+}
+
+/**
+ * 정상 종료/종료 신호 때 실행할 정리 작업 등록 (로그/trace/메트릭 전송 등)
+ * 신호는 이곳에서만 받아 모든 작업을 기다린 뒤 종료하고, 같은 이름으로 다시 등록하면 교체
+ */
+export function onShutdown(name: string, hook: ShutdownHook) {
+  state.hooks.set(name, hook);
+  install();
+}
@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 첨부 파일 저장소 인터페이스
+ * STORAGE_DRIVER 환경변수로 구현체 선택 (현재 local만 지원, S3 호환 드라이버는 추후 추가)
+ * key는 '/'로 구분된 상대 경로 (예: <postId>/<attachmentId>)
+ */
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** 없으면 null */
+  get(key: string): Promise<Buffer | null>;
+  /** 없어도 에러 없이 통과 */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * 로컬 디렉터리에 파일로 저장
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private root: string;
+
+  constructor(dir = process.env.STORAGE_DIR || path.join(process.cwd(), 'uploads')) {
+    this.root = path.resolve(dir);
+  }
+
+  // 저장 디렉터리 밖을 가리키는 key 차단
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`잘못된 저장소 key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+export function getStorageDriver(): StorageDriver {
+  if (driver) return driver;
+  switch (process.env.STORAGE_DRIVER || 'local') {
+    case 'local':
+      driver = new LocalStorageDriver();
+      break;
+    default:
+      throw new Error(`지원하지 않는 STORAGE_DRIVER: ${process.env.STORAGE_DRIVER}`);
+  }
+  return driver;
+}
+
+/**
+ * 테스트에서 저장소를 교체 (null이면 다음 호출 때 환경변수로 다시 생성)
+ */
+export function setStorageDriver(next: StorageDriver | null) {
+  driver = next;
+}
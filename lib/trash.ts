@@ -0,0 +1,68 @@
+import { ObjectId } from 'mongodb';
+import { createManualLogger, createSpan } from '@/lib/logger-tracing';
+import { deleteAttachmentsForPosts } from '@/lib/attachments';
+import { getRepositories } from '@/lib/repositories';
+import { recordPostsDeleted } from '@/lib/metrics';
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 휴지통 보관 기간, 지나면 영구 삭제
+export const TRASH_RETENTION_DAYS = numberFromEnv('TRASH_RETENTION_DAYS', 30);
+
+const PURGE_INTERVAL_MS = numberFromEnv('TRASH_PURGE_INTERVAL_MINUTES', 60) * 60 * 1000;
+
+/**
+ * 게시글 영구 삭제 후 딸린 댓글/수정 이력/반응/조회 기록/첨부 파일 정리
+ */
+export async function deletePostsPermanently(ids: ObjectId[]) {
+  const deletedCount = await getRepositories().posts.deleteByIds(ids);
+  await cleanupRelated(ids);
+  recordPostsDeleted('permanent', deletedCount);
+  return deletedCount;
+}
+
+// 영구 삭제된 게시글의 댓글/수정 이력/반응/조회 기록/첨부 파일 정리
+async function cleanupRelated(ids: ObjectId[]) {
+  if (!ids.length) return;
+  const { comments, revisions, reactions, views } = getRepositories();
+  await comments.deleteForPosts(ids);
+  await revisions.deleteForPosts(ids);
+  await reactions.deleteForPosts(ids);
+  await views.deleteForPosts(ids);
+  await deleteAttachmentsForPosts(ids);
+}
+
+/**
+ * 보관 기간이 지난 휴지통 게시글 영구 삭제
+ */
+export async function purgeTrash(now = new Date()) {
+  return createSpan('posts.trash.purge', async (span, traceId) => {
+    const logger = createManualLogger(traceId);
+    const before = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const ids = await getRepositories().posts.purgeTrashed(before);
+    await cleanupRelated(ids);
+    recordPostsDeleted('purge', ids.length);
+    span.setAttribute('posts.purged', ids.length);
+    if (ids.length) logger.info('휴지통 게시글 영구 삭제', { purgedCount: ids.length, retentionDays: TRASH_RETENTION_DAYS });
+    return ids.length;
+  });
+}
+
+declare global {
+  var _trashPurgeTimer: NodeJS.Timeout | undefined;
+}
+
+/**
+ * 주기적인 휴지통 정리 시작 (개발 서버 재로딩 시 중복 실행 방지)
+ */
+export function startTrashPurge() {
+  if (global._trashPurgeTimer) return;
+  const run = () =>
+    purgeTrash().catch((error) => createManualLogger().error('휴지통 정리 실패', error as Error));
+  global._trashPurgeTimer = setInterval(run, PURGE_INTERVAL_MS);
+  global._trashPurgeTimer.unref();
+  void run();
+}
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { z, ZodTypeAny } from 'zod';
+import { ApiError } from '@/lib/api-error';
+
+export { z };
+
+// ----------------- 공통 스키마 -----------------
+export const objectId = z
+  .string()
+  .refine((value) => ObjectId.isValid(value), { message: '올바른 ID가 아닙니다.' })
+  .transform((value) => new ObjectId(value));
+
+export const nonEmptyString = (message: string) => z.string({ required_error: message }).trim().min(1, message);
+
+// zod 오류를 { path, message } 목록으로 정리
+function toDetails(error: z.ZodError) {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+function parse<S extends ZodTypeAny>(schema: S, input: unknown, source: string): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const details = toDetails(result.error);
+    throw ApiError.validation(details[0]?.message || `잘못된 ${source}입니다.`, details);
+  }
+  return result.data;
+}
+
+// ----------------- 요청 파서 -----------------
+/**
+ * JSON 본문 검증
+ * 본문이 없거나 JSON으로 읽을 수 없으면 400 (잘린 본문이 빈 요청처럼 처리되지 않도록)
+ */
+export async function parseBody<S extends ZodTypeAny>(req: Request, schema: S): Promise<z.output<S>> {
+  const text = await req.text().catch(() => {
+    throw ApiError.validation('요청 본문을 읽을 수 없습니다.');
+  });
+  if (!text.trim()) {
+    throw ApiError.validation('요청 본문이 필요합니다.');
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw ApiError.validation('요청 본문이 올바른 JSON이 아닙니다.');
+  }
+  return parse(schema, body, '요청 본문');
+}
+
+/**
+ * 쿼리 문자열 검증 (값은 모두 문자열이므로 숫자는 z.coerce 사용)
+ */
+export function parseQuery<S extends ZodTypeAny>(req: NextRequest, schema: S): z.output<S> {
+  return parse(schema, Object.fromEntries(req.nextUrl.searchParams), '쿼리 파라미터');
+}
+
+/**
+ * 동적 라우트 파라미터 검증
+ */
+export async function parseParams<S extends ZodTypeAny>(params: Promise<unknown>, schema: S): Promise<z.output<S>> {
+  return parse(schema, await params, '경로 파라미터');
+}
@@ -0,0 +1,85 @@
+// 요청 공통 검사
+// - 보호된 페이지: token 쿠키를 검증하고, 없거나 만료됐으면 /login?next=... 로 이동
+// - 상태를 바꾸는 /api/* 요청: Origin(없으면 Referer)이 이 서버와 같은지 확인해 CSRF 차단
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { ApiError, ErrorCode, errorResponse } from '@/lib/api-error';
+import { createManualLogger } from '@/lib/logger-tracing';
+
+// 로그인해야 볼 수 있는 페이지 경로 (하위 경로 포함)
+const PROTECTED_PAGES = ['/posts', '/sessions', '/admin'];
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// 리버스 프록시 뒤에서 외부 도메인이 다를 때 허용할 Origin (쉼표 구분, 예: https://app.example.com)
+const TRUSTED_ORIGINS = (process.env.CSRF_TRUSTED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+function isProtectedPage(pathname: string) {
+  return PROTECTED_PAGES.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+// Origin 헤더, 없으면 Referer의 origin
+function requestOrigin(req: NextRequest) {
+  const origin = req.headers.get('origin');
+  if (origin && origin !== 'null') return origin;
+  const referer = req.headers.get('referer');
+  if (!referer) return origin;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return 'null';
+  }
+}
+
+function isSameOrigin(req: NextRequest, origin: string) {
+  if (TRUSTED_ORIGINS.includes(origin)) return true;
+  const host = req.headers.get('x-forwarded-host') || req.headers.get('host');
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 상태를 바꾸는 API 요청의 출처 확인
+ * 쿠키가 없는 요청은 도용할 인증 정보가 없으므로 Origin/Referer가 없어도 통과
+ */
+function checkOrigin(req: NextRequest) {
+  if (SAFE_METHODS.has(req.method)) return null;
+
+  const origin = requestOrigin(req);
+  if (origin ? isSameOrigin(req, origin) : req.cookies.size === 0) return null;
+
+  createManualLogger().warn('CSRF 차단', { method: req.method, path: req.nextUrl.pathname, origin });
+  return errorResponse(new ApiError(403, ErrorCode.CSRF_REJECTED, '요청 출처를 확인할 수 없습니다.'));
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    return checkOrigin(req) ?? NextResponse.next();
+  }
+
+  if (isProtectedPage(pathname)) {
+    const token = req.cookies.get('token')?.value;
+    if (!token || !(await verifyToken(token))) {
+      const login = new URL('/login', req.url);
+      login.searchParams.set('next', `${pathname}${search}`);
+      return NextResponse.redirect(login);
+    }
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // 토큰 검증이 세션 저장소(MongoDB)를 조회하므로 Node.js 런타임에서 실행
+  runtime: 'nodejs',
+  matcher: ['/api/:path*', '/posts/:path*', '/sessions/:path*', '/admin/:path*'],
+};